@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Download, ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  LOG_TYPES, DEFAULT_LOG_QUERY, LOG_EXPORT_LIMIT, fetchLogs, filterLogs, formatPayload, logsToCsv
+} from '@/lib/logs';
+import type { DashboardLog, LogQuery, LogType } from '@/lib/logs';
+import type { StorageBackend } from '@/lib/storage';
+import { downloadFile } from '@/lib/utils';
+
+type ActivityLogsProps = {
+  // Entries logged since the page loaded; shown on their own when the log store is unreachable.
+  sessionLogs: DashboardLog[];
+  // Part of the query key, so switching backends refetches.
+  storageBackend: StorageBackend;
+  isStoreEnabled: boolean;
+};
+
+const TYPE_CLASSES: Record<LogType, string> = {
+  ERROR: 'text-destructive',
+  SUCCESS: 'text-green-500',
+  TRADE: 'text-chart-4',
+  RISK: 'text-chart-5',
+  GATE: 'text-chart-3',
+  INFO: 'text-primary',
+};
+
+export function ActivityLogs({ sessionLogs, storageBackend, isStoreEnabled }: ActivityLogsProps) {
+  const [query, setQuery] = useState<LogQuery>(DEFAULT_LOG_QUERY);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { data, error, isFetching } = useQuery({
+    queryKey: ['logs', storageBackend, query],
+    queryFn: () => fetchLogs(query),
+    enabled: isStoreEnabled,
+    placeholderData: keepPreviousData,
+    staleTime: 0
+  });
+
+  const isSessionOnly = !isStoreEnabled || !!error;
+  const sessionMatches = isSessionOnly ? filterLogs(sessionLogs, query) : [];
+  const logs = isSessionOnly
+    ? sessionMatches.slice((query.page - 1) * query.pageSize, query.page * query.pageSize)
+    : data?.logs ?? [];
+  const total = isSessionOnly ? sessionMatches.length : data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / query.pageSize));
+  const isFiltered = query.type !== 'ALL' || !!query.search.trim() || !!query.from || !!query.to;
+
+  // Any filter change starts again from the first page.
+  const updateQuery = (patch: Partial<Omit<LogQuery, 'page'>>) => setQuery(q => ({ ...q, ...patch, page: 1 }));
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const rows = isSessionOnly
+        ? sessionMatches
+        : (await fetchLogs({ ...query, page: 1, pageSize: LOG_EXPORT_LIMIT })).logs;
+      const name = `aegis-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === 'csv') downloadFile(name, 'text/csv', logsToCsv(rows));
+      else downloadFile(name, 'application/json', JSON.stringify(rows, null, 2));
+    } catch (err) {
+      setExportError(`Export failed: ${err instanceof Error ? err.message : 'Unknown'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card className="h-full flex flex-col overflow-hidden" data-testid="activity-logs">
+      <div className="px-8 py-4 border-b border-border space-y-4">
+        <div className="flex justify-between items-center flex-wrap gap-2">
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-bold text-primary uppercase tracking-widest">Activity Stream</span>
+            {isSessionOnly && (
+              <Badge variant="secondary" data-testid="badge-logs-session-only">
+                {isStoreEnabled ? 'Log store unreachable · this session only' : 'Sign in to load stored logs · this session only'}
+              </Badge>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={isExporting || total === 0} data-testid="button-export-logs-csv">
+              <Download className="w-3 h-3 mr-2" /> CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={isExporting || total === 0} data-testid="button-export-logs-json">
+              <Download className="w-3 h-3 mr-2" /> JSON
+            </Button>
+          </div>
+        </div>
+        {exportError && <p className="text-destructive text-xs font-mono" data-testid="text-log-export-error">{exportError}</p>}
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_160px_150px_150px_auto] gap-3 items-center">
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query.search}
+              onChange={e => updateQuery({ search: e.target.value })}
+              placeholder="Search messages, symbols and payloads"
+              className="pl-9 text-xs"
+              data-testid="input-log-search"
+            />
+          </div>
+          <Select value={query.type} onValueChange={v => updateQuery({ type: v as LogQuery['type'] })}>
+            <SelectTrigger className="text-xs" data-testid="select-log-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">All types</SelectItem>
+              {LOG_TYPES.map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={query.from} max={query.to || undefined} onChange={e => updateQuery({ from: e.target.value })} className="text-xs" data-testid="input-log-from" />
+          <Input type="date" value={query.to} min={query.from || undefined} onChange={e => updateQuery({ to: e.target.value })} className="text-xs" data-testid="input-log-to" />
+          <Button variant="ghost" size="sm" onClick={() => setQuery(DEFAULT_LOG_QUERY)} className="text-muted-foreground" data-testid="button-reset-log-filters">
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-8 py-6 font-mono text-[11px] space-y-3">
+        {logs.map(log => (
+          <div key={log.id} className="flex gap-6 border-b border-border/30 pb-2" data-testid={`log-${log.id}`}>
+            <span className="text-muted-foreground shrink-0">[{new Date(log.timestamp).toLocaleString()}]</span>
+            <span className={`font-bold w-20 shrink-0 ${TYPE_CLASSES[log.type] ?? 'text-primary'}`}>
+              {log.type}
+            </span>
+            <div className="text-muted-foreground flex-1 min-w-0">
+              {log.message}
+              {log.payload !== undefined && (
+                <details className="mt-1">
+                  <summary className="cursor-pointer text-[10px] uppercase">Details</summary>
+                  <pre className="mt-1 p-2 rounded bg-muted/50 whitespace-pre-wrap break-all" data-testid={`text-log-detail-${log.id}`}>{formatPayload(log.payload)}</pre>
+                </details>
+              )}
+            </div>
+          </div>
+        ))}
+        {logs.length === 0 && (
+          <div className="text-center text-muted-foreground py-32 text-xs italic">
+            {isFetching ? 'Loading logs...' : isFiltered ? 'No log entries match the filters.' : 'Terminal stream idle.'}
+          </div>
+        )}
+      </div>
+
+      <div className="px-8 py-3 border-t border-border flex items-center justify-between text-xs text-muted-foreground">
+        <span data-testid="text-log-total">{total.toLocaleString()} entries</span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setQuery(q => ({ ...q, page: q.page - 1 }))}
+            disabled={query.page <= 1}
+            data-testid="button-logs-prev"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="font-mono" data-testid="text-log-page">{Math.min(query.page, pageCount)} / {pageCount}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setQuery(q => ({ ...q, page: q.page + 1 }))}
+            disabled={query.page >= pageCount}
+            data-testid="button-logs-next"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
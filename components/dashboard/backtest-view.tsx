@@ -0,0 +1,245 @@
+import { useState, useRef, useEffect } from 'react';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { FlaskConical, Square } from 'lucide-react';
+import { fetchKlines, candlesToMarketData, KLINE_INTERVALS } from '@/lib/market';
+import { computeIndicators } from '@/lib/indicators';
+import type { KlineInterval } from '@/lib/market';
+import { runBacktest, mockDecider } from '@/lib/backtest';
+import type { BacktestResult, Decider } from '@/lib/backtest';
+import { buildAnalyzeRequest } from '@/lib/analyze';
+import { requestTradeDecision } from '@/lib/consensus';
+import type { ReplayMode } from '@/lib/analyze';
+import { getBracketConfig, getPaperConfig } from '@/lib/settings';
+import type { DashboardSettings } from '@/lib/settings';
+
+type BacktestViewProps = {
+  settings: DashboardSettings;
+};
+
+export function BacktestView({ settings }: BacktestViewProps) {
+  const [klineInterval, setKlineInterval] = useState<KlineInterval>('15m');
+  const [candleCount, setCandleCount] = useState(500);
+  const [replayMode, setReplayMode] = useState<ReplayMode>('mock');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cacheMisses, setCacheMisses] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the view cancels the run rather than letting it keep calling the model in the background.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setResult(null);
+    setCacheMisses(0);
+    setProgress({ done: 0, total: candleCount });
+
+    // Cached replays go through /api/ai/analyze with the same payload the live cycle sends;
+    // candles with no cached response are treated as WAIT.
+    const cachedDecider: Decider = async (window, positionSide) => {
+      const request = buildAnalyzeRequest(
+        settings,
+        candlesToMarketData(settings.tradingSymbol, window, klineInterval),
+        positionSide,
+        computeIndicators(window, klineInterval)
+      );
+      try {
+        return await requestTradeDecision({ ...request, replay: { mode: 'cached', timestamp: window[window.length - 1].time } }, settings);
+      } catch (err) {
+        if (err instanceof Error && err.message.startsWith('404')) {
+          setCacheMisses(n => n + 1);
+          return { action: 'WAIT', confidence: 0, reason: 'No cached response' };
+        }
+        throw err;
+      }
+    };
+
+    try {
+      const candles = await fetchKlines(settings.tradingSymbol, klineInterval, candleCount);
+      const backtest = await runBacktest(
+        candles,
+        {
+          symbol: settings.tradingSymbol,
+          interval: klineInterval,
+          startingBalance: settings.paperStartingBalance,
+          leverage: settings.defaultLeverage,
+          riskPercent: settings.riskPercent,
+          paper: getPaperConfig(settings),
+          brackets: getBracketConfig(settings),
+          warmup: 30
+        },
+        replayMode === 'mock' ? mockDecider : cachedDecider,
+        (done, total) => setProgress({ done, total }),
+        controller.signal
+      );
+      setResult(backtest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backtest failed');
+    } finally {
+      setProgress(null);
+      abortRef.current = null;
+    }
+  };
+
+  const stats = result?.stats;
+
+  return (
+    <div className="max-w-7xl space-y-8 pb-20" data-testid="view-backtest">
+      <Card className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Interval</label>
+            <Select value={klineInterval} onValueChange={(v) => setKlineInterval(v as KlineInterval)}>
+              <SelectTrigger data-testid="select-backtest-interval">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KLINE_INTERVALS.map(i => <SelectItem key={i} value={i}>{i}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Candles</label>
+            <Input
+              type="number"
+              min="50"
+              max="1000"
+              value={candleCount}
+              onChange={e => setCandleCount(Math.min(1000, Math.max(50, parseInt(e.target.value) || 50)))}
+              className="font-bold text-center"
+              data-testid="input-backtest-candles"
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">AI Responses</label>
+            <Select value={replayMode} onValueChange={(v) => setReplayMode(v as ReplayMode)}>
+              <SelectTrigger data-testid="select-backtest-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mock">Mocked (EMA crossover)</SelectItem>
+                <SelectItem value="cached">Cached model responses</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {progress ? (
+            <Button variant="destructive" onClick={() => abortRef.current?.abort()} data-testid="button-cancel-backtest">
+              <Square className="w-3 h-3 mr-2" /> Cancel
+            </Button>
+          ) : (
+            <Button onClick={handleRun} data-testid="button-run-backtest">
+              <FlaskConical className="w-4 h-4 mr-2" /> Run Backtest
+            </Button>
+          )}
+        </div>
+        <p className="text-[10px] text-muted-foreground mt-4">
+          Replays {settings.tradingSymbol} at {settings.defaultLeverage}x with {settings.riskPercent}% risk,
+          {' '}{settings.paperFeePercent}% fee and {settings.paperSlippagePercent}% slippage from {settings.paperStartingBalance} USDT.
+        </p>
+        {progress && (
+          <Progress value={progress.total > 0 ? progress.done / progress.total * 100 : 0} className="mt-4" data-testid="progress-backtest" />
+        )}
+        {error && <p className="text-destructive text-xs mt-4" data-testid="text-backtest-error">{error}</p>}
+        {cacheMisses > 0 && (
+          <p className="text-chart-4 text-xs mt-2">{cacheMisses} candles had no cached response and were treated as WAIT.</p>
+        )}
+      </Card>
+
+      {result && stats && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Return', value: `${stats.totalReturnPercent >= 0 ? '+' : ''}${stats.totalReturnPercent.toFixed(2)}%`, positive: stats.totalReturnPercent >= 0 },
+              { label: 'Win Rate', value: `${stats.winRate.toFixed(1)}%`, positive: stats.winRate >= 50 },
+              { label: 'Sharpe', value: stats.sharpe.toFixed(2), positive: stats.sharpe >= 0 },
+              { label: 'Max Drawdown', value: `${stats.maxDrawdownPercent.toFixed(2)}%`, positive: false },
+              { label: 'Closed Trades', value: String(stats.closedTrades), positive: true }
+            ].map(stat => (
+              <Card key={stat.label} className="p-4">
+                <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider">{stat.label}</p>
+                <p className={`text-xl font-bold font-mono mt-1 ${stat.label === 'Max Drawdown' ? 'text-destructive' : stat.positive ? 'text-green-500' : 'text-destructive'}`}
+                  data-testid={`text-backtest-${stat.label.toLowerCase().replace(' ', '-')}`}>
+                  {stat.value}
+                </p>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="p-6">
+            <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-wider mb-6">Equity Curve</h3>
+            <div className="h-[260px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={result.equityCurve}>
+                  <defs>
+                    <linearGradient id="colorEquity" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="hsl(var(--chart-2))" stopOpacity={0.2}/>
+                      <stop offset="95%" stopColor="hsl(var(--chart-2))" stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" opacity={0.5} />
+                  <XAxis dataKey="time" hide />
+                  <YAxis domain={['auto', 'auto']} width={70} tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" />
+                  <Tooltip
+                    labelFormatter={(t) => new Date(t as number).toLocaleString()}
+                    formatter={(v) => [`${Number(v).toFixed(2)} USDT`, 'Equity']}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                      color: 'hsl(var(--foreground))'
+                    }}
+                  />
+                  <Area type="monotone" dataKey="equity" stroke="hsl(var(--chart-2))" fill="url(#colorEquity)" strokeWidth={2} isAnimationActive={false} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <Card className="overflow-hidden">
+            <div className="max-h-[400px] overflow-y-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-muted text-muted-foreground text-[10px] font-bold uppercase tracking-widest border-b border-border sticky top-0">
+                  <tr>
+                    <th className="px-6 py-4">Time</th>
+                    <th className="px-6 py-4">Side</th>
+                    <th className="px-6 py-4">Price</th>
+                    <th className="px-6 py-4">Quantity</th>
+                    <th className="px-6 py-4">PnL</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {result.trades.map(trade => (
+                    <tr key={trade.id} className="hover-elevate">
+                      <td className="px-6 py-3 font-mono text-xs">{new Date(trade.time).toLocaleString()}</td>
+                      <td className={`px-6 py-3 font-bold ${trade.side === 'BUY' ? 'text-green-500' : 'text-destructive'}`}>{trade.side}</td>
+                      <td className="px-6 py-3 font-mono">{trade.price}</td>
+                      <td className="px-6 py-3">{trade.quantity}</td>
+                      <td className={`px-6 py-3 font-bold ${trade.pnl >= 0 ? 'text-green-500' : 'text-destructive'}`}>
+                        {trade.pnl >= 0 ? '+' : ''}{trade.pnl.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                  {result.trades.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-12 text-center text-muted-foreground italic">
+                        No trades were taken.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState, useMemo, useRef, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, ReferenceLine, ReferenceArea, Brush } from 'recharts';
+import { ChartContainer, ChartTooltip } from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { fetchKlines, KLINE_INTERVALS, KLINE_LIMIT } from '@/lib/market';
+import type { Candle, KlineInterval } from '@/lib/market';
+import { computeIndicatorSeries, volumeProfile, EMA_FAST, EMA_SLOW, SMA_FAST, SMA_SLOW } from '@/lib/indicators';
+import type { IndicatorPoint } from '@/lib/indicators';
+
+const MIN_VISIBLE = 20;
+const DEFAULT_VISIBLE = 120;
+
+const chartConfig = {
+  up: { label: 'Up', color: 'hsl(142 71% 45%)' },
+  down: { label: 'Down', color: 'hsl(var(--destructive))' },
+  volume: { label: 'Volume', color: 'hsl(var(--muted-foreground))' },
+  emaFast: { label: `EMA ${EMA_FAST}`, color: 'hsl(var(--chart-1))' },
+  emaSlow: { label: `EMA ${EMA_SLOW}`, color: 'hsl(var(--chart-2))' },
+  smaFast: { label: `SMA ${SMA_FAST}`, color: 'hsl(var(--chart-3))' },
+  smaSlow: { label: `SMA ${SMA_SLOW}`, color: 'hsl(var(--chart-4))' },
+  bollinger: { label: 'Bollinger', color: 'hsl(var(--chart-5))' },
+  vwap: { label: 'VWAP', color: 'hsl(var(--primary))' },
+  profile: { label: 'Volume Profile', color: 'hsl(var(--chart-4))' }
+} satisfies ChartConfig;
+
+export type Overlay = 'ema' | 'sma' | 'bollinger' | 'vwap' | 'profile' | 'rsi' | 'macd' | 'atr';
+
+const OVERLAYS: { id: Overlay; label: string }[] = [
+  { id: 'ema', label: 'EMA' },
+  { id: 'sma', label: 'SMA' },
+  { id: 'bollinger', label: 'BB' },
+  { id: 'vwap', label: 'VWAP' },
+  { id: 'profile', label: 'VP' },
+  { id: 'rsi', label: 'RSI' },
+  { id: 'macd', label: 'MACD' },
+  { id: 'atr', label: 'ATR' }
+];
+
+type CandleDatum = Candle & IndicatorPoint & {
+  range: [number, number];
+  isUp: boolean;
+};
+
+type CandleShapeProps = {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandleDatum;
+};
+
+// Recharts draws the bar over [low, high]; the body is placed inside that span by interpolation.
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload) return null;
+  const { open, close, high, low, isUp } = payload;
+  const span = high - low || 1;
+  const toY = (price: number) => y + (high - price) / span * height;
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(toY(open) - toY(close)));
+  const color = isUp ? 'var(--color-up)' : 'var(--color-down)';
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+function CandleTooltip({ active, payload }: { active?: boolean; payload?: { payload: CandleDatum }[] }) {
+  const candle = payload?.[0]?.payload;
+  if (!active || !candle) return null;
+  const change = candle.open > 0 ? (candle.close - candle.open) / candle.open * 100 : 0;
+  return (
+    <div className="grid min-w-[9rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">{new Date(candle.time).toLocaleString()}</div>
+      {(['open', 'high', 'low', 'close'] as const).map(key => (
+        <div key={key} className="flex justify-between gap-4">
+          <span className="text-muted-foreground uppercase">{key[0]}</span>
+          <span className="font-mono tabular-nums">{candle[key].toLocaleString()}</span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Vol</span>
+        <span className="font-mono tabular-nums">{candle.volume.toLocaleString()}</span>
+      </div>
+      <div className={`text-right font-mono ${change >= 0 ? 'text-green-500' : 'text-destructive'}`}>
+        {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+      </div>
+    </div>
+  );
+}
+
+// Oscillators live in their own strip below the price pane, sharing its visible window.
+function IndicatorPane({ data, overlay, formatTick }: { data: CandleDatum[]; overlay: 'rsi' | 'macd' | 'atr'; formatTick: (time: number) => string }) {
+  return (
+    <div className="relative h-[90px] w-full mt-2" data-testid={`pane-${overlay}`}>
+      <span className="absolute top-0 left-1 z-10 text-[10px] font-bold text-muted-foreground uppercase">{overlay}</span>
+      <ChartContainer config={chartConfig} className="h-full w-full aspect-auto">
+        <ComposedChart data={data} syncId="candles" syncMethod="value">
+          <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.3} />
+          <XAxis dataKey="time" hide tickFormatter={formatTick} />
+          <YAxis
+            orientation="right"
+            width={70}
+            tickLine={false}
+            axisLine={false}
+            domain={overlay === 'rsi' ? [0, 100] : ['auto', 'auto']}
+            ticks={overlay === 'rsi' ? [30, 70] : undefined}
+            tickFormatter={(v: number) => Number(v.toPrecision(4)).toString()}
+          />
+          {overlay === 'rsi' && (
+            <>
+              <ReferenceLine y={70} stroke="hsl(var(--destructive))" strokeDasharray="3 3" />
+              <ReferenceLine y={30} stroke="hsl(142 71% 45%)" strokeDasharray="3 3" />
+              <Line dataKey="rsi" stroke="var(--color-bollinger)" dot={false} isAnimationActive={false} />
+            </>
+          )}
+          {overlay === 'macd' && (
+            <>
+              <ReferenceLine y={0} stroke="hsl(var(--border))" />
+              <Bar dataKey="macdHistogram" fill="var(--color-volume)" opacity={0.5} isAnimationActive={false} />
+              <Line dataKey="macd" stroke="var(--color-emaFast)" dot={false} isAnimationActive={false} />
+              <Line dataKey="macdSignal" stroke="var(--color-emaSlow)" dot={false} isAnimationActive={false} />
+            </>
+          )}
+          {overlay === 'atr' && <Line dataKey="atr" stroke="var(--color-smaSlow)" dot={false} isAnimationActive={false} />}
+        </ComposedChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+type CandlestickChartProps = {
+  symbol: string;
+  livePrice?: number;
+  defaultInterval?: KlineInterval;
+};
+
+export function CandlestickChart({ symbol, livePrice, defaultInterval = '15m' }: CandlestickChartProps) {
+  const [klineInterval, setKlineInterval] = useState<KlineInterval>(defaultInterval);
+  const [overlays, setOverlays] = useState<Overlay[]>(['ema']);
+  const [visible, setVisible] = useState<{ start: number; end: number } | null>(null);
+  const [crosshairPrice, setCrosshairPrice] = useState<number | null>(null);
+
+  const { data: candles = [], isLoading, error } = useQuery<Candle[]>({
+    queryKey: ['/api/market/klines', symbol, klineInterval],
+    queryFn: () => fetchKlines(symbol, klineInterval, KLINE_LIMIT),
+    refetchInterval: 15000
+  });
+
+  // Computed from the fetched candles only, matching the snapshot the AI cycle builds from the same query.
+  const series = useMemo(() => computeIndicatorSeries(candles), [candles]);
+
+  const data = useMemo<CandleDatum[]>(() => candles.map((c, i) => {
+    // Fold the latest ticker into the forming candle so the chart moves between refetches.
+    const isLast = i === candles.length - 1;
+    const close = isLast && livePrice ? livePrice : c.close;
+    const high = Math.max(c.high, close);
+    const low = Math.min(c.low, close);
+    return { ...c, ...series[i], close, high, low, range: [low, high], isUp: close >= c.open };
+  }), [candles, series, livePrice]);
+
+  const lastIndex = Math.max(0, data.length - 1);
+  const start = Math.min(visible?.start ?? Math.max(0, data.length - DEFAULT_VISIBLE), lastIndex);
+  const end = Math.min(visible?.end ?? lastIndex, lastIndex);
+  const maxVolume = Math.max(1, ...data.slice(start, end + 1).map(c => c.volume));
+  const profile = useMemo(() => overlays.includes('profile') ? volumeProfile(candles) : null, [overlays, candles]);
+  const panes = (['rsi', 'macd', 'atr'] as const).filter(o => overlays.includes(o));
+  const show = (overlay: Overlay) => overlays.includes(overlay);
+
+  // Read by the wheel listener, which is attached once.
+  const zoomRef = useRef({ start, end, length: data.length });
+  zoomRef.current = { start, end, length: data.length };
+  const wheelRef = useRef<HTMLDivElement>(null);
+
+  // Wheel zooms around the right edge; the brush below handles panning. React's onWheel is passive and
+  // cannot stop the page scrolling, so this is a native listener.
+  useEffect(() => {
+    const element = wheelRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      const { start, end, length } = zoomRef.current;
+      if (length === 0) return;
+      e.preventDefault();
+      const next = Math.round((end - start) * (e.deltaY > 0 ? 1.15 : 0.87));
+      const clamped = Math.min(length - 1, Math.max(MIN_VISIBLE, next));
+      setVisible({ start: Math.max(0, end - clamped), end });
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const formatTick = (time: number) => new Date(time).toLocaleString([], klineInterval === '1d'
+    ? { month: 'short', day: 'numeric' }
+    : { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div data-testid="candlestick-chart">
+      <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+        <div className="flex items-center gap-1">
+          {KLINE_INTERVALS.map(i => (
+            <Button
+              key={i}
+              variant={i === klineInterval ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => { setKlineInterval(i); setVisible(null); }}
+              data-testid={`button-interval-${i}`}
+            >
+              {i}
+            </Button>
+          ))}
+        </div>
+        <ToggleGroup type="multiple" size="sm" value={overlays} onValueChange={(v) => setOverlays(v as Overlay[])} data-testid="toggle-overlays">
+          {OVERLAYS.map(o => (
+            <ToggleGroupItem key={o.id} value={o.id} className="h-7 px-2 text-xs" data-testid={`toggle-overlay-${o.id}`}>
+              {o.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div ref={wheelRef} className="h-[300px] w-full">
+        {error ? (
+          <div className="h-full flex items-center justify-center text-xs text-destructive">
+            Failed to load candles: {(error as Error).message}
+          </div>
+        ) : isLoading ? (
+          <div className="h-full flex items-center justify-center text-xs text-muted-foreground">Loading candles...</div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-full w-full aspect-auto">
+            <ComposedChart
+              data={data}
+              syncId="candles"
+              syncMethod="value"
+              onMouseMove={(state) => {
+                const index = state?.activeTooltipIndex;
+                setCrosshairPrice(typeof index === 'number' && data[index] ? data[index].close : null);
+              }}
+              onMouseLeave={() => setCrosshairPrice(null)}
+            >
+              <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.5} />
+              <XAxis dataKey="time" tickFormatter={formatTick} minTickGap={40} tickLine={false} axisLine={false} />
+              <YAxis yAxisId="price" orientation="right" domain={['auto', 'auto']} width={70} tickLine={false} axisLine={false} />
+              <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4]} />
+              <ChartTooltip cursor={{ strokeDasharray: '3 3' }} content={<CandleTooltip />} />
+              {crosshairPrice !== null && (
+                <ReferenceLine yAxisId="price" y={crosshairPrice} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+              )}
+              <Bar yAxisId="volume" dataKey="volume" fill="var(--color-volume)" opacity={0.25} isAnimationActive={false} />
+              {profile && (
+                <>
+                  <ReferenceArea yAxisId="price" y1={profile.valueAreaLow} y2={profile.valueAreaHigh} fill="var(--color-profile)" fillOpacity={0.08} />
+                  <ReferenceLine yAxisId="price" y={profile.pointOfControl} stroke="var(--color-profile)" label={{ value: 'POC', position: 'insideLeft', fontSize: 10 }} />
+                </>
+              )}
+              <Bar yAxisId="price" dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+              {show('ema') && (
+                <>
+                  <Line yAxisId="price" dataKey="emaFast" stroke="var(--color-emaFast)" dot={false} isAnimationActive={false} />
+                  <Line yAxisId="price" dataKey="emaSlow" stroke="var(--color-emaSlow)" dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {show('sma') && (
+                <>
+                  <Line yAxisId="price" dataKey="smaFast" stroke="var(--color-smaFast)" dot={false} isAnimationActive={false} />
+                  <Line yAxisId="price" dataKey="smaSlow" stroke="var(--color-smaSlow)" dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {show('bollinger') && (
+                <>
+                  <Line yAxisId="price" dataKey="bbUpper" stroke="var(--color-bollinger)" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                  <Line yAxisId="price" dataKey="bbMiddle" stroke="var(--color-bollinger)" strokeOpacity={0.5} dot={false} isAnimationActive={false} />
+                  <Line yAxisId="price" dataKey="bbLower" stroke="var(--color-bollinger)" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {show('vwap') && (
+                <Line yAxisId="price" dataKey="vwap" stroke="var(--color-vwap)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              )}
+              <Brush
+                dataKey="time"
+                height={18}
+                startIndex={start}
+                endIndex={end}
+                tickFormatter={formatTick}
+                stroke="hsl(var(--border))"
+                fill="hsl(var(--card))"
+                onChange={({ startIndex, endIndex }) => {
+                  if (startIndex !== undefined && endIndex !== undefined) setVisible({ start: startIndex, end: endIndex });
+                }}
+              />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </div>
+      {!error && !isLoading && panes.map(pane => (
+        <IndicatorPane key={pane} data={data.slice(start, end + 1)} overlay={pane} formatTick={formatTick} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+
+type ClampedNumberInputProps = {
+  value: number | undefined;
+  min: number;
+  max?: number;
+  step?: number;
+  isInteger?: boolean;
+  // Optional fields commit undefined when cleared; required ones go back to the current value.
+  isOptional?: boolean;
+  placeholder?: string;
+  className?: string;
+  onChange: (value: number | undefined) => void;
+  testId: string;
+};
+
+// Edits a draft and clamps it on blur, so intermediate text such as "0." can be typed on the way to 0.5.
+export function ClampedNumberInput({
+  value, min, max = Infinity, step = 1, isInteger = false, isOptional = false, placeholder, className, onChange, testId
+}: ClampedNumberInputProps) {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+
+  useEffect(() => {
+    setDraft(value?.toString() ?? '');
+  }, [value]);
+
+  const commit = () => {
+    const parsed = isInteger ? parseInt(draft) : parseFloat(draft);
+    const isBlank = draft.trim() === '' || !Number.isFinite(parsed);
+    if (isBlank && !isOptional) {
+      setDraft(value?.toString() ?? '');
+      return;
+    }
+    const next = isBlank ? undefined : Math.min(max, Math.max(min, parsed));
+    setDraft(next?.toString() ?? '');
+    if (next !== value) onChange(next);
+  };
+
+  return (
+    <Input
+      type="number"
+      min={min}
+      max={Number.isFinite(max) ? max : undefined}
+      step={step}
+      placeholder={placeholder}
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => e.key === 'Enter' && commit()}
+      className={className}
+      data-testid={testId}
+    />
+  );
+}
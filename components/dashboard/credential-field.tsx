@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { KeyRound, Trash2 } from 'lucide-react';
+import type { StoredCredential } from '@/hooks/use-credentials';
+
+type SecretField = {
+  name: string;
+  placeholder: string;
+};
+
+type CredentialFieldProps = {
+  testId: string;
+  fields: SecretField[];
+  credential?: StoredCredential;
+  isPending: boolean;
+  // Resolves to false when the vault rejected the key; the typed values are kept so the user can retry.
+  onStore: (secrets: Record<string, string>) => Promise<boolean>;
+  onRevoke: (id: string) => void;
+};
+
+export function CredentialField({ testId, fields, credential, isPending, onStore, onRevoke }: CredentialFieldProps) {
+  const [secrets, setSecrets] = useState<Record<string, string>>({});
+  const [isReplacing, setIsReplacing] = useState(false);
+  const isComplete = fields.every(f => secrets[f.name]?.trim());
+
+  if (credential && !isReplacing) {
+    return (
+      <div className="mt-3 p-3 rounded-lg border border-border bg-muted/40 flex items-center justify-between gap-3" data-testid={`vault-${testId}`}>
+        <div className="flex items-center gap-3 min-w-0">
+          <KeyRound className="w-4 h-4 text-primary shrink-0" />
+          <div className="min-w-0">
+            <p className="font-mono text-xs font-bold" data-testid={`text-fingerprint-${testId}`}>
+              ••••{credential.fingerprint}
+            </p>
+            <p className="text-[10px] text-muted-foreground uppercase">
+              Last used: {credential.lastUsedAt ? new Date(credential.lastUsedAt).toLocaleString() : 'Never'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Button variant="ghost" size="sm" onClick={() => setIsReplacing(true)} data-testid={`button-replace-${testId}`}>
+            Replace
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => onRevoke(credential.id)} data-testid={`button-revoke-${testId}`}>
+            <Trash2 className="w-4 h-4 text-destructive" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleStore = async () => {
+    if (!(await onStore(secrets))) return;
+    setSecrets({});
+    setIsReplacing(false);
+  };
+
+  return (
+    <div className="space-y-3 mt-3">
+      {fields.map(field => (
+        <Input
+          key={field.name}
+          type="password"
+          placeholder={field.placeholder}
+          className="font-mono"
+          autoComplete="off"
+          value={secrets[field.name] || ''}
+          onChange={e => setSecrets(s => ({ ...s, [field.name]: e.target.value }))}
+          data-testid={`input-${testId}-${field.name}`}
+        />
+      ))}
+      <div className="flex gap-2">
+        <Button size="sm" disabled={!isComplete || isPending} onClick={handleStore} data-testid={`button-store-${testId}`}>
+          Store in Vault
+        </Button>
+        {isReplacing && (
+          <Button size="sm" variant="ghost" onClick={() => { setSecrets({}); setIsReplacing(false); }}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Input } from '@/components/ui/input';
+import type { CustomProviderConfig } from '@/lib/providers';
+
+type CustomProviderFieldsProps = {
+  config: CustomProviderConfig;
+  onChange: (config: CustomProviderConfig) => void;
+};
+
+// The server calls `${baseUrl}/chat/completions`, so the URL usually ends in /v1.
+export function CustomProviderFields({ config, onChange }: CustomProviderFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4 mt-3" data-testid="custom-provider">
+      <div>
+        <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Base URL</label>
+        <Input
+          value={config.baseUrl}
+          onChange={e => onChange({ ...config, baseUrl: e.target.value.trim() })}
+          placeholder="http://localhost:11434/v1"
+          className="font-mono text-xs"
+          data-testid="input-custom-base-url"
+        />
+      </div>
+      <div>
+        <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Model</label>
+        <Input
+          value={config.model}
+          onChange={e => onChange({ ...config, model: e.target.value.trim() })}
+          placeholder="llama3.1:8b"
+          className="font-mono text-xs"
+          data-testid="input-custom-model"
+        />
+      </div>
+    </div>
+  );
+}
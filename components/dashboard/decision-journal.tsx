@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Search } from 'lucide-react';
+import { matchesJournalQuery } from '@/lib/journal';
+import type { JournalEntry, JournalCall } from '@/lib/journal';
+import { PROVIDER_LABELS } from '@/lib/providers';
+import { SCORING_HORIZONS } from '@/lib/scoring';
+import type { TokenUsage } from '@/lib/analyze';
+
+type DecisionJournalProps = {
+  entries: JournalEntry[];
+  onClear: () => void;
+};
+
+const PAGE_SIZE = 50;
+
+function formatCost(cost: number | null) {
+  if (cost === null) return '--';
+  return cost < 0.01 ? `$${cost.toFixed(5)}` : `$${cost.toFixed(3)}`;
+}
+
+function formatTokens(usage: TokenUsage | null) {
+  return usage ? (usage.promptTokens + usage.completionTokens).toLocaleString() : '--';
+}
+
+function actionClass(action: string | undefined) {
+  return action === 'LONG' ? 'text-green-500' :
+    action === 'SHORT' ? 'text-destructive' :
+    action === 'CLOSE' ? 'text-chart-4' :
+    'text-muted-foreground';
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-[10px] font-bold text-muted-foreground uppercase mb-2">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+function Block({ text, testId }: { text: string; testId?: string }) {
+  return (
+    <pre className="p-3 rounded bg-muted/50 font-mono text-[11px] whitespace-pre-wrap break-all max-h-64 overflow-y-auto" data-testid={testId}>
+      {text}
+    </pre>
+  );
+}
+
+function CallDetail({ call, index }: { call: JournalCall; index: number }) {
+  return (
+    <Card className="p-4 space-y-3" data-testid={`journal-call-${index}`}>
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <span className="text-xs font-bold">{PROVIDER_LABELS[call.provider]}</span>
+        <div className="flex gap-3 text-[10px] font-mono text-muted-foreground">
+          <span>{call.latencyMs !== null ? `${call.latencyMs} ms` : '--'}</span>
+          <span>{call.attempts !== null ? `${call.attempts} attempt${call.attempts === 1 ? '' : 's'}` : '--'}</span>
+          <span>{call.usage ? `${call.usage.promptTokens} in / ${call.usage.completionTokens} out` : 'usage n/a'}</span>
+          <span>{formatCost(call.costUsd)}</span>
+        </div>
+      </div>
+      {call.error && <p className="text-destructive text-xs">{call.error}</p>}
+      {call.decision && <Block text={JSON.stringify(call.decision, null, 2)} />}
+      {call.rawOutput !== null && (
+        <details>
+          <summary className="cursor-pointer text-[10px] font-bold uppercase text-muted-foreground">Raw Response</summary>
+          <div className="mt-2"><Block text={call.rawOutput} testId={`text-journal-raw-${index}`} /></div>
+        </details>
+      )}
+    </Card>
+  );
+}
+
+export function DecisionJournal({ entries, onClear }: DecisionJournalProps) {
+  const [query, setQuery] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const filtered = entries.filter(e => matchesJournalQuery(e, query));
+  const selected = entries.find(e => e.id === selectedId) ?? null;
+  const totalCost = filtered.reduce((s, e) => s + (e.costUsd ?? 0), 0);
+
+  return (
+    <div className="space-y-6" data-testid="decision-journal">
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="relative flex-1 min-w-[240px]">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={e => { setQuery(e.target.value); setLimit(PAGE_SIZE); }}
+            placeholder="Search symbol, action, provider, reason, prompt or raw output"
+            className="pl-9"
+            data-testid="input-journal-search"
+          />
+        </div>
+        <span className="text-xs text-muted-foreground font-mono" data-testid="text-journal-summary">
+          {filtered.length} of {entries.length} · {formatCost(totalCost)}
+        </span>
+        <Button variant="ghost" size="sm" onClick={onClear} className="text-muted-foreground" disabled={entries.length === 0} data-testid="button-clear-journal">
+          Clear Journal
+        </Button>
+      </div>
+
+      <Card className="overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-muted text-muted-foreground text-[10px] font-bold uppercase tracking-widest border-b border-border">
+            <tr>
+              <th className="px-6 py-4">Time</th>
+              <th className="px-6 py-4">Symbol</th>
+              <th className="px-6 py-4">Source</th>
+              <th className="px-6 py-4">Provider</th>
+              <th className="px-6 py-4">Action</th>
+              <th className="px-6 py-4">Confidence</th>
+              <th className="px-6 py-4">Latency</th>
+              <th className="px-6 py-4">Tokens</th>
+              <th className="px-6 py-4">Cost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {filtered.slice(0, limit).map(entry => (
+              <tr
+                key={entry.id}
+                className="hover-elevate cursor-pointer"
+                onClick={() => setSelectedId(entry.id)}
+                data-testid={`row-journal-${entry.id}`}
+              >
+                <td className="px-6 py-4 font-mono text-xs text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</td>
+                <td className="px-6 py-4 font-bold">{entry.symbol}</td>
+                <td className="px-6 py-4 text-xs text-muted-foreground">{entry.source}</td>
+                <td className="px-6 py-4 text-xs">
+                  {entry.calls.length > 1 ? `Consensus (${entry.calls.length})` : entry.calls[0] ? PROVIDER_LABELS[entry.calls[0].provider] : '--'}
+                </td>
+                <td className={`px-6 py-4 font-bold ${actionClass(entry.decision?.action)}`}>
+                  {entry.decision?.action ?? <span className="text-destructive">FAILED</span>}
+                </td>
+                <td className="px-6 py-4 font-mono text-xs">{entry.decision ? `${entry.decision.confidence}%` : '--'}</td>
+                <td className="px-6 py-4 font-mono text-xs">{entry.latencyMs !== null ? `${entry.latencyMs} ms` : '--'}</td>
+                <td className="px-6 py-4 font-mono text-xs">{formatTokens(entry.usage)}</td>
+                <td className="px-6 py-4 font-mono text-xs">{formatCost(entry.costUsd)}</td>
+              </tr>
+            ))}
+            {filtered.length === 0 && (
+              <tr>
+                <td colSpan={9} className="px-6 py-12 text-center text-muted-foreground italic">
+                  {entries.length === 0 ? 'No decisions recorded yet.' : 'No decisions match the search.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {filtered.length > limit && (
+          <div className="p-4 border-t border-border text-center">
+            <Button variant="ghost" size="sm" onClick={() => setLimit(l => l + PAGE_SIZE)} data-testid="button-journal-more">
+              Show {Math.min(PAGE_SIZE, filtered.length - limit)} more
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      <Dialog open={selected !== null} onOpenChange={open => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto" data-testid="dialog-journal-entry">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  {selected.symbol}
+                  <span className={actionClass(selected.decision?.action)}>{selected.decision?.action ?? 'FAILED'}</span>
+                  {selected.decision && <Badge variant="secondary">{selected.decision.confidence}%</Badge>}
+                </DialogTitle>
+                <DialogDescription>
+                  {new Date(selected.timestamp).toLocaleString()} · {selected.source}
+                  {selected.prompt && ` · strategy ${selected.prompt.profileId} v${selected.prompt.version}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-6">
+                {selected.error && <p className="text-destructive text-sm" data-testid="text-journal-error">{selected.error}</p>}
+                {selected.decision && (
+                  <Section title="Decision">
+                    <p className="text-sm italic">"{selected.decision.reason}"</p>
+                    {(selected.decision.stopLoss || selected.decision.takeProfit) && (
+                      <p className="text-xs font-mono text-muted-foreground mt-2">
+                        SL {selected.decision.stopLoss ?? '--'} / TP {selected.decision.takeProfit ?? '--'}
+                      </p>
+                    )}
+                  </Section>
+                )}
+
+                {selected.outcomes && (
+                  <Section title="Outcome">
+                    <div className="grid grid-cols-3 gap-3 text-xs font-mono" data-testid="journal-outcomes">
+                      {SCORING_HORIZONS.filter(h => selected.outcomes?.[h] !== undefined).map(h => {
+                        const outcome = selected.outcomes?.[h];
+                        return (
+                          <div key={h}>
+                            <span className="text-muted-foreground">{h}</span>{' '}
+                            {outcome ? (
+                              <span className={`font-bold ${outcome.isHit ? 'text-green-500' : 'text-destructive'}`}>
+                                {outcome.isHit ? 'HIT' : 'MISS'} {outcome.movePercent >= 0 ? '+' : ''}{outcome.movePercent.toFixed(3)}%
+                              </span>
+                            ) : <span className="text-muted-foreground">unpriced</span>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </Section>
+                )}
+
+                <Section title="Market Snapshot">
+                  {selected.marketData ? (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs font-mono">
+                      <div>Price <span className="font-bold">{selected.marketData.price}</span></div>
+                      <div>24h <span className="font-bold">{selected.marketData.change24h}%</span></div>
+                      <div>High <span className="font-bold">{selected.marketData.high24h}</span></div>
+                      <div>Low <span className="font-bold">{selected.marketData.low24h}</span></div>
+                      <div>Position <span className="font-bold">{selected.positionSide ?? '--'}</span></div>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground italic">Decided server-side; no snapshot was captured.</p>
+                  )}
+                </Section>
+
+                {selected.indicators && (
+                  <Section title={`Indicators (${selected.indicators.interval})`}>
+                    <Block text={JSON.stringify(selected.indicators, null, 2)} testId="text-journal-indicators" />
+                  </Section>
+                )}
+
+                {selected.orderBook && (
+                  <Section title="Order Book">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs font-mono" data-testid="text-journal-order-book">
+                      <div>Mid <span className="font-bold">{selected.orderBook.mid}</span></div>
+                      <div>Spread <span className="font-bold">{selected.orderBook.spreadPercent.toFixed(4)}%</span></div>
+                      <div>Bid / Ask <span className="font-bold">{selected.orderBook.bidVolume.toFixed(3)} / {selected.orderBook.askVolume.toFixed(3)}</span></div>
+                      <div>Imbalance <span className="font-bold">{(selected.orderBook.imbalance * 100).toFixed(1)}%</span></div>
+                    </div>
+                  </Section>
+                )}
+
+                {selected.prompt && (
+                  <Section title="Prompt">
+                    <div className="space-y-2">
+                      <Block text={selected.prompt.system} />
+                      <Block text={selected.prompt.user} testId="text-journal-prompt" />
+                      <Block text={selected.prompt.outputConstraints} />
+                    </div>
+                  </Section>
+                )}
+
+                <Section title="Provider Calls">
+                  <div className="space-y-3">
+                    {selected.calls.map((call, i) => <CallDetail key={i} call={call} index={i} />)}
+                    {selected.calls.length === 0 && (
+                      <p className="text-xs text-muted-foreground italic">No call details were recorded for this decision.</p>
+                    )}
+                  </div>
+                </Section>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
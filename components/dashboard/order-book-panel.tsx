@@ -0,0 +1,144 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { aggregateBook, getGroupingOptions, IMBALANCE_LEVELS } from '@/lib/order-book';
+import type { BookLevel, OrderBookSnapshot } from '@/lib/order-book';
+import type { StreamDepth, StreamStatus } from '@/hooks/use-market-stream';
+import { formatQuantity } from '@/lib/sizing';
+
+const BOOK_ROWS = 12;
+
+// Options run from fine to coarse; this one is usually a few ticks wide.
+const DEFAULT_GROUPING_INDEX = 2;
+
+const chartConfig = {
+  bids: { label: 'Bids', color: 'hsl(142 71% 45%)' },
+  asks: { label: 'Asks', color: 'hsl(var(--destructive))' }
+} satisfies ChartConfig;
+
+type OrderBookPanelProps = {
+  symbol: string;
+  depth: StreamDepth | null;
+  summary: OrderBookSnapshot | null;
+  status: StreamStatus;
+};
+
+function formatPrice(price: number) {
+  return Number(price.toPrecision(8)).toString();
+}
+
+function BookRows({ levels, side, maxTotal }: { levels: BookLevel[]; side: 'bid' | 'ask'; maxTotal: number }) {
+  const color = side === 'bid' ? 'bg-green-500/15' : 'bg-destructive/15';
+  return (
+    <>
+      {levels.map((level, i) => (
+        <div key={level.price} className="relative grid grid-cols-3 text-xs font-mono py-0.5 px-2" data-testid={`row-${side}-${i}`}>
+          <div className={`absolute inset-y-0 right-0 ${color}`} style={{ width: `${maxTotal > 0 ? level.total / maxTotal * 100 : 0}%` }} />
+          <span className={`relative ${side === 'bid' ? 'text-green-500' : 'text-destructive'}`}>{formatPrice(level.price)}</span>
+          <span className="relative text-right">{formatQuantity(level.quantity)}</span>
+          <span className="relative text-right text-muted-foreground">{formatQuantity(level.total)}</span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+export function OrderBookPanel({ symbol, depth, summary, status }: OrderBookPanelProps) {
+  const groupingOptions = getGroupingOptions(summary?.mid ?? 0);
+  const [grouping, setGrouping] = useState<number | null>(null);
+
+  // A step that suits one symbol is meaningless for another.
+  useEffect(() => {
+    setGrouping(null);
+  }, [symbol]);
+
+  const step = grouping ?? groupingOptions[Math.min(DEFAULT_GROUPING_INDEX, groupingOptions.length - 1)];
+  const book = useMemo(() => depth && step ? aggregateBook(depth, step, BOOK_ROWS) : null, [depth, step]);
+  const maxTotal = book ? Math.max(book.bids[book.bids.length - 1]?.total ?? 0, book.asks[book.asks.length - 1]?.total ?? 0) : 0;
+
+  // One ascending price axis: bid totals grow to the left of the mid, ask totals to the right.
+  const chartData = book
+    ? [
+      ...[...book.bids].reverse().map(l => ({ price: l.price, bids: l.total })),
+      ...book.asks.map(l => ({ price: l.price, asks: l.total }))
+    ]
+    : [];
+
+  const imbalance = summary?.imbalance ?? 0;
+
+  return (
+    <Card className="p-6" data-testid="order-book-panel">
+      <div className="flex items-center justify-between mb-6 gap-4 flex-wrap">
+        <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-wider">
+          Order Book ({symbol})
+        </h3>
+        <div className="flex items-center gap-2">
+          {status !== 'OPEN' && <Badge variant="secondary" className="text-[10px]">{status}</Badge>}
+          <Select
+            value={step ? String(step) : ''}
+            onValueChange={v => setGrouping(Number(v))}
+            disabled={groupingOptions.length === 0}
+          >
+            <SelectTrigger className="w-28 h-8 text-xs" data-testid="select-book-grouping">
+              <SelectValue placeholder="Grouping" />
+            </SelectTrigger>
+            <SelectContent>
+              {groupingOptions.map(o => <SelectItem key={o} value={String(o)}>{formatPrice(o)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!book || !summary ? (
+        <p className="text-muted-foreground text-sm py-12 text-center">Waiting for depth from the market stream...</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div>
+            <div className="grid grid-cols-3 text-[10px] font-bold text-muted-foreground uppercase px-2 mb-1">
+              <span>Price</span>
+              <span className="text-right">Size</span>
+              <span className="text-right">Total</span>
+            </div>
+            <BookRows levels={[...book.asks].reverse()} side="ask" maxTotal={maxTotal} />
+            <div className="flex justify-between items-center text-xs font-mono px-2 py-2 my-1 border-y border-border">
+              <span className="font-bold" data-testid="text-book-mid">{formatPrice(summary.mid)}</span>
+              <span className="text-muted-foreground" data-testid="text-book-spread">
+                Spread {formatPrice(summary.spread)} ({summary.spreadPercent.toFixed(4)}%)
+              </span>
+            </div>
+            <BookRows levels={book.bids} side="bid" maxTotal={maxTotal} />
+          </div>
+
+          <div className="flex flex-col gap-6">
+            <div>
+              <div className="flex justify-between text-[10px] font-bold text-muted-foreground uppercase mb-2">
+                <span>Bid / Ask Imbalance (top {IMBALANCE_LEVELS})</span>
+                <span className={`font-mono ${imbalance >= 0 ? 'text-green-500' : 'text-destructive'}`} data-testid="text-book-imbalance">
+                  {imbalance >= 0 ? '+' : ''}{(imbalance * 100).toFixed(1)}%
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-destructive/60 overflow-hidden">
+                <div className="h-full bg-green-500" style={{ width: `${(imbalance + 1) / 2 * 100}%` }} />
+              </div>
+            </div>
+            <ChartContainer config={chartConfig} className="h-[260px] w-full aspect-auto" data-testid="chart-depth">
+              <AreaChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.3} />
+                <XAxis dataKey="price" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatPrice} tickLine={false} axisLine={false} />
+                <YAxis orientation="right" width={60} tickLine={false} axisLine={false} tickFormatter={(v: number) => formatQuantity(v)} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatPrice(payload?.[0]?.payload?.price ?? 0)} />} />
+                <ReferenceLine x={summary.mid} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+                <Area dataKey="bids" type="stepBefore" stroke="var(--color-bids)" fill="var(--color-bids)" fillOpacity={0.2} isAnimationActive={false} />
+                <Area dataKey="asks" type="stepAfter" stroke="var(--color-asks)" fill="var(--color-asks)" fillOpacity={0.2} isAnimationActive={false} />
+              </AreaChart>
+            </ChartContainer>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
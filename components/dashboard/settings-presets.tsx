@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, Plus, X } from 'lucide-react';
+import { BUILT_IN_PRESETS, isPresetActive } from '@/lib/presets';
+import type { SettingsPreset } from '@/lib/presets';
+import type { DashboardSettings } from '@/lib/settings';
+
+type SettingsPresetsProps = {
+  settings: DashboardSettings;
+  userPresets: SettingsPreset[];
+  onApply: (preset: SettingsPreset) => void;
+  onCreate: (name: string) => void;
+  onDelete: (presetId: string) => void;
+};
+
+export function SettingsPresets({ settings, userPresets, onApply, onCreate, onDelete }: SettingsPresetsProps) {
+  const [name, setName] = useState('');
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    onCreate(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4" data-testid="settings-presets">
+      <div className="flex flex-wrap gap-2">
+        {[...BUILT_IN_PRESETS, ...userPresets].map(preset => {
+          const isActive = isPresetActive(settings, preset);
+          return (
+            <div key={preset.id} className="flex items-center">
+              <Button
+                size="sm"
+                variant={isActive ? 'default' : 'outline'}
+                onClick={() => onApply(preset)}
+                className={preset.builtIn ? '' : 'rounded-r-none'}
+                data-testid={`button-preset-${preset.id}`}
+              >
+                {isActive && <Check className="w-3 h-3 mr-1" />}
+                {preset.name}
+              </Button>
+              {!preset.builtIn && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="rounded-l-none border-l-0 px-2"
+                  onClick={() => onDelete(preset.id)}
+                  aria-label={`Delete ${preset.name}`}
+                  data-testid={`button-delete-preset-${preset.id}`}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 max-w-md">
+        <Input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleCreate()}
+          placeholder="Preset name"
+          className="text-xs"
+          data-testid="input-preset-name"
+        />
+        <Button variant="outline" size="sm" onClick={handleCreate} disabled={!name.trim()} data-testid="button-create-preset">
+          <Plus className="w-4 h-4 mr-1" /> Save Current
+        </Button>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Presets never change keys, the live/simulation switch or the sync target. Applying one saves it and updates running bots.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Upload } from 'lucide-react';
+import { createSettingsFile, readSettingsFile, diffSettings, isSecretField } from '@/lib/settings-transfer';
+import type { SecretMode, SettingsImport } from '@/lib/settings-transfer';
+import type { DashboardSettings } from '@/lib/settings';
+import { downloadFile } from '@/lib/utils';
+
+type SettingsTransferProps = {
+  settings: DashboardSettings;
+  onImport: (settings: DashboardSettings, changeCount: number) => void;
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (isSecretField(field)) return value ? '••••••' : '(empty)';
+  if (typeof value === 'string') return value || '(empty)';
+  return JSON.stringify(value);
+}
+
+export function SettingsTransfer({ settings, onImport }: SettingsTransferProps) {
+  const [secretMode, setSecretMode] = useState<SecretMode>('strip');
+  const [exportPassword, setExportPassword] = useState('');
+  const [importPassword, setImportPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<SettingsImport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const changes = pending ? diffSettings(settings, pending.settings) : [];
+  const { report } = pending ?? {};
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const file = await createSettingsFile(settings, secretMode, exportPassword);
+      downloadFile(`aegis-settings-${file.exportedAt.slice(0, 10)}.json`, 'application/json', JSON.stringify(file, null, 2));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      setPending(await readSettingsFile(await file.text(), settings, importPassword));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      // Lets the same file be picked again, e.g. after entering its password.
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleApply = () => {
+    if (!pending) return;
+    onImport(pending.settings, changes.length);
+    setPending(null);
+  };
+
+  return (
+    <div className="space-y-8" data-testid="settings-transfer">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="space-y-3">
+          <label className="block text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Export</label>
+          <Select value={secretMode} onValueChange={v => setSecretMode(v as SecretMode)}>
+            <SelectTrigger data-testid="select-export-secrets">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="strip">Strip keys</SelectItem>
+              <SelectItem value="encrypt">Encrypt keys with a password</SelectItem>
+            </SelectContent>
+          </Select>
+          {secretMode === 'encrypt' && (
+            <Input
+              type="password"
+              value={exportPassword}
+              onChange={e => setExportPassword(e.target.value)}
+              placeholder="Export password"
+              data-testid="input-export-password"
+            />
+          )}
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={secretMode === 'encrypt' && !exportPassword}
+            data-testid="button-export-settings"
+          >
+            <Download className="w-4 h-4 mr-2" /> Export JSON
+          </Button>
+        </div>
+        <div className="space-y-3">
+          <label className="block text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Import</label>
+          <Input
+            type="password"
+            value={importPassword}
+            onChange={e => setImportPassword(e.target.value)}
+            placeholder="Password (only for files with encrypted keys)"
+            data-testid="input-import-password"
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => handleFile(e.target.files?.[0])}
+            data-testid="input-import-file"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} data-testid="button-import-settings">
+            <Upload className="w-4 h-4 mr-2" /> Choose File
+          </Button>
+        </div>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Keys stored in the vault never leave the server and are not part of an export; only keys still held in settings are.
+      </p>
+      {error && <p className="text-destructive text-xs font-mono" data-testid="text-transfer-error">{error}</p>}
+
+      <Dialog open={pending !== null} onOpenChange={open => !open && setPending(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto" data-testid="dialog-import-preview">
+          <DialogHeader>
+            <DialogTitle>Import Settings</DialogTitle>
+            <DialogDescription>
+              {changes.length} change(s)
+              {report && report.fromVersion !== report.toVersion ? ` · upgraded from v${report.fromVersion}` : ''}
+              {pending?.exportedAt ? ` · exported ${new Date(pending.exportedAt).toLocaleString()}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 text-xs">
+            {pending?.hasLockedSecrets && (
+              <p className="text-chart-4" data-testid="text-import-locked">
+                This file has encrypted keys. Enter its password and choose the file again to include them; this device's keys are kept otherwise.
+              </p>
+            )}
+            {pending && pending.importedSecrets.length > 0 && (
+              <p data-testid="text-import-secrets">Keys decrypted: {pending.importedSecrets.join(', ')}</p>
+            )}
+            {report && report.reset.length > 0 && (
+              <p className="text-destructive" data-testid="text-import-reset">Invalid, reset to defaults: {report.reset.join(', ')}</p>
+            )}
+            {report && report.dropped.length > 0 && (
+              <p className="text-muted-foreground" data-testid="text-import-dropped">Unknown, ignored: {report.dropped.join(', ')}</p>
+            )}
+            {report && report.defaulted.length > 0 && (
+              <p className="text-muted-foreground">Missing, filled with defaults: {report.defaulted.join(', ')}</p>
+            )}
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-muted-foreground text-sm py-6 text-center">The file matches the current settings.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Imported</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map(change => (
+                  <TableRow key={change.field} data-testid={`row-import-${change.field}`}>
+                    <TableCell className="font-mono text-xs">
+                      {change.field}
+                      {isSecretField(change.field) && <Badge variant="secondary" className="ml-2 text-[10px]">key</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground break-all">{formatValue(change.field, change.from)}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{formatValue(change.field, change.to)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} data-testid="button-cancel-import">Cancel</Button>
+            <Button onClick={handleApply} disabled={changes.length === 0} data-testid="button-apply-import">
+              Apply and Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
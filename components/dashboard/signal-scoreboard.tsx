@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, ZAxis } from 'recharts';
+import { ChartContainer, ChartTooltip } from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart';
+import { Card } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { summarizeOverall, summarizeByConfidence, summarizeBySource, summarizeByProvider, calibrationCurve } from '@/lib/scoring';
+import type { ScoringHorizon, ScoreBucket, ScoreSource, CalibrationPoint } from '@/lib/scoring';
+import type { JournalEntry } from '@/lib/journal';
+import { PROVIDER_LABELS } from '@/lib/providers';
+
+type SignalScoreboardProps = {
+  entries: JournalEntry[];
+  horizons: ScoringHorizon[];
+};
+
+const chartConfig = {
+  ideal: { label: 'Perfect calibration', color: 'hsl(var(--muted-foreground))' },
+  actual: { label: 'Hit rate', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const IDEAL_LINE = [{ confidence: 0, hitRate: 0 }, { confidence: 100, hitRate: 100 }];
+
+const SOURCE_LABELS: Record<ScoreSource, string> = {
+  ...PROVIDER_LABELS,
+  consensus: 'Consensus',
+  bot: 'Bot (server)',
+};
+
+function formatMove(value: number) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(3)}%`;
+}
+
+function BucketTable({ title, rows, testId }: { title: string; rows: ScoreBucket[]; testId: string }) {
+  return (
+    <Card className="overflow-hidden">
+      <table className="w-full text-left text-sm" data-testid={testId}>
+        <thead className="bg-muted text-muted-foreground text-[10px] font-bold uppercase tracking-widest border-b border-border">
+          <tr>
+            <th className="px-6 py-3">{title}</th>
+            <th className="px-6 py-3">Calls</th>
+            <th className="px-6 py-3">Hit Rate</th>
+            <th className="px-6 py-3">Avg Move</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {rows.map(row => (
+            <tr key={row.label}>
+              <td className="px-6 py-3 font-bold text-xs">{row.label}</td>
+              <td className="px-6 py-3 font-mono text-xs">{row.count}</td>
+              <td className="px-6 py-3 font-mono text-xs">{row.hitRate.toFixed(1)}%</td>
+              <td className={`px-6 py-3 font-mono text-xs ${row.avgMovePercent >= 0 ? 'text-green-500' : 'text-destructive'}`}>
+                {formatMove(row.avgMovePercent)}
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={4} className="px-6 py-8 text-center text-muted-foreground italic text-xs">No scored calls yet.</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </Card>
+  );
+}
+
+export function SignalScoreboard({ entries, horizons }: SignalScoreboardProps) {
+  const [selected, setSelected] = useState<ScoringHorizon | null>(null);
+  const horizon = selected && horizons.includes(selected) ? selected : horizons[0];
+
+  if (!horizon) {
+    return (
+      <Card className="p-6 text-xs text-muted-foreground italic" data-testid="signal-scoreboard">
+        Signal scoring is off. Pick at least one horizon in Bot Config.
+      </Card>
+    );
+  }
+
+  const overall = summarizeOverall(entries, horizon);
+  const byConfidence = summarizeByConfidence(entries, horizon);
+  const bySource = summarizeBySource(entries, horizon).map(row => ({ ...row, label: SOURCE_LABELS[row.source] }));
+  const byProvider = summarizeByProvider(entries, horizon).map(row => ({ ...row, label: PROVIDER_LABELS[row.provider] }));
+  const calibration = calibrationCurve(entries, horizon);
+
+  return (
+    <div className="space-y-6" data-testid="signal-scoreboard">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h3 className="text-lg font-bold tracking-tight">Signal Accuracy</h3>
+          <p className="text-xs text-muted-foreground">LONG and SHORT calls scored against the 1m close after each horizon.</p>
+        </div>
+        <ToggleGroup type="single" size="sm" value={horizon} onValueChange={v => v && setSelected(v as ScoringHorizon)} data-testid="toggle-score-horizon">
+          {horizons.map(h => (
+            <ToggleGroupItem key={h} value={h} className="h-7 px-3 text-xs" data-testid={`toggle-horizon-${h}`}>
+              {h}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="p-4">
+          <p className="text-[10px] font-bold text-muted-foreground uppercase">Scored Calls</p>
+          <p className="text-2xl font-bold font-mono" data-testid="text-score-count">{overall.count}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-[10px] font-bold text-muted-foreground uppercase">Hit Rate</p>
+          <p className="text-2xl font-bold font-mono" data-testid="text-score-hit-rate">
+            {overall.count > 0 ? `${overall.hitRate.toFixed(1)}%` : '--'}
+          </p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-[10px] font-bold text-muted-foreground uppercase">Avg Move</p>
+          <p className={`text-2xl font-bold font-mono ${overall.avgMovePercent >= 0 ? 'text-green-500' : 'text-destructive'}`} data-testid="text-score-avg-move">
+            {overall.count > 0 ? formatMove(overall.avgMovePercent) : '--'}
+          </p>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6">
+          <p className="text-[10px] font-bold text-muted-foreground uppercase mb-4">Calibration · stated confidence vs. hit rate</p>
+          <ChartContainer config={chartConfig} className="h-[260px] w-full aspect-auto" data-testid="chart-calibration">
+            <ComposedChart margin={{ top: 8, right: 8, bottom: 8, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+              <XAxis type="number" dataKey="confidence" domain={[0, 100]} ticks={[0, 20, 40, 60, 80, 100]} unit="%" tickLine={false} />
+              <YAxis type="number" dataKey="hitRate" domain={[0, 100]} ticks={[0, 20, 40, 60, 80, 100]} unit="%" width={48} tickLine={false} />
+              <ZAxis type="number" dataKey="count" range={[40, 400]} />
+              <ChartTooltip
+                content={({ payload }) => {
+                  const point = payload?.[0]?.payload as CalibrationPoint | undefined;
+                  if (!point || point.count === undefined) return null;
+                  return (
+                    <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl font-mono">
+                      <div>Confidence {point.confidence.toFixed(0)}%</div>
+                      <div>Hit rate {point.hitRate.toFixed(1)}%</div>
+                      <div className="text-muted-foreground">{point.count} calls</div>
+                    </div>
+                  );
+                }}
+              />
+              <Line data={IDEAL_LINE} dataKey="hitRate" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+              <Scatter data={calibration} fill="var(--color-actual)" isAnimationActive={false} />
+            </ComposedChart>
+          </ChartContainer>
+        </Card>
+        <div className="space-y-6">
+          <BucketTable title="Confidence" rows={byConfidence} testId="table-score-confidence" />
+          <BucketTable title="Cycle Source" rows={bySource} testId="table-score-source" />
+          <BucketTable title="Provider Calls" rows={byProvider} testId="table-score-provider" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  TEMPLATE_VARIABLES, DEFAULT_PROFILE_ID, getLatestVersion, commitStrategyVersion, createStrategyProfile, findUnknownVariables
+} from '@/lib/strategy';
+import type { StrategyProfile, StrategyDraft } from '@/lib/strategy';
+import type { WatchlistEntry } from '@/lib/settings';
+
+type StrategyEditorProps = {
+  profiles: StrategyProfile[];
+  activeProfileId: string;
+  // Symbols can pin a profile through their overrides; those profiles cannot be deleted.
+  watchlist: WatchlistEntry[];
+  onSelectActive: (profileId: string) => void;
+  onChange: (profiles: StrategyProfile[]) => void;
+};
+
+function toDraft(profile: StrategyProfile, version?: number): StrategyDraft {
+  const source = profile.versions.find(v => v.version === version) ?? getLatestVersion(profile);
+  return { systemPrompt: source.systemPrompt, userTemplate: source.userTemplate, outputConstraints: source.outputConstraints };
+}
+
+export function StrategyEditor({ profiles, activeProfileId, watchlist, onSelectActive, onChange }: StrategyEditorProps) {
+  const [editingId, setEditingId] = useState(activeProfileId);
+  const profile = profiles.find(p => p.id === editingId) ?? profiles[0];
+  const latest = getLatestVersion(profile);
+  const [draft, setDraft] = useState<StrategyDraft>(() => toDraft(profile));
+  const [name, setName] = useState(profile.name);
+
+  const usedBy = watchlist.filter(e => e.overrides.strategyProfileId === profile.id).map(e => e.symbol);
+
+  // Reload the draft whenever another profile is opened or the open one is saved.
+  useEffect(() => {
+    setDraft(toDraft(profile));
+    setName(profile.name);
+  }, [profile]);
+
+  const unknown = findUnknownVariables(draft.userTemplate);
+  const isPromptChanged = draft.systemPrompt !== latest.systemPrompt
+    || draft.userTemplate !== latest.userTemplate
+    || draft.outputConstraints !== latest.outputConstraints;
+  const isDirty = isPromptChanged || name !== profile.name;
+
+  const replace = (next: StrategyProfile) => onChange(profiles.map(p => p.id === next.id ? next : p));
+
+  const handleSave = () => {
+    replace(commitStrategyVersion({ ...profile, name: name.trim() || profile.name }, draft));
+  };
+
+  const handleCreate = () => {
+    const created = createStrategyProfile(`${profile.name} copy`, draft);
+    onChange([...profiles, created]);
+    setEditingId(created.id);
+  };
+
+  const handleDelete = () => {
+    if (usedBy.length > 0) return;
+    onChange(profiles.filter(p => p.id !== profile.id));
+    setEditingId(profiles.find(p => p.id !== profile.id)?.id ?? DEFAULT_PROFILE_ID);
+  };
+
+  return (
+    <div className="space-y-6" data-testid="strategy-editor">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Profile</label>
+          <Select value={profile.id} onValueChange={setEditingId}>
+            <SelectTrigger data-testid="select-strategy-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(p => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name} (v{getLatestVersion(p).version}){p.id === activeProfileId ? ' · active' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Name</label>
+          <Input value={name} onChange={e => setName(e.target.value)} data-testid="input-strategy-name" />
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Load Version</label>
+          <Select value="" onValueChange={v => setDraft(toDraft(profile, Number(v)))}>
+            <SelectTrigger data-testid="select-strategy-version">
+              <SelectValue placeholder={`v${latest.version} · ${new Date(latest.savedAt).toLocaleDateString()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {[...profile.versions].reverse().map(v => (
+                <SelectItem key={v.version} value={String(v.version)}>
+                  v{v.version} · {new Date(v.savedAt).toLocaleString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">System Prompt</label>
+        <Textarea
+          value={draft.systemPrompt}
+          onChange={e => setDraft(d => ({ ...d, systemPrompt: e.target.value }))}
+          className="font-mono text-xs min-h-[100px]"
+          data-testid="input-strategy-system"
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2 gap-2 flex-wrap">
+          <label className="block text-[10px] font-bold text-muted-foreground uppercase">User Prompt Template</label>
+          <div className="flex gap-1 flex-wrap">
+            {TEMPLATE_VARIABLES.map(v => (
+              <Badge key={v} variant="secondary" className="font-mono text-[10px]">{`{{${v}}}`}</Badge>
+            ))}
+          </div>
+        </div>
+        <Textarea
+          value={draft.userTemplate}
+          onChange={e => setDraft(d => ({ ...d, userTemplate: e.target.value }))}
+          className="font-mono text-xs min-h-[140px]"
+          data-testid="input-strategy-template"
+        />
+        {unknown.length > 0 && (
+          <p className="text-chart-4 text-xs mt-2" data-testid="text-strategy-unknown">
+            Unknown variables are sent as-is: {unknown.map(v => `{{${v}}}`).join(', ')}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Output Constraints</label>
+        <Textarea
+          value={draft.outputConstraints}
+          onChange={e => setDraft(d => ({ ...d, outputConstraints: e.target.value }))}
+          className="font-mono text-xs"
+          data-testid="input-strategy-constraints"
+        />
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <Button onClick={handleSave} disabled={!isDirty} data-testid="button-save-strategy">
+          {isPromptChanged ? `Save as v${latest.version + 1}` : 'Save'}
+        </Button>
+        <Button variant="outline" onClick={handleCreate} data-testid="button-new-strategy">
+          <Plus className="w-4 h-4 mr-2" /> Duplicate
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => onSelectActive(profile.id)}
+          disabled={profile.id === activeProfileId}
+          data-testid="button-activate-strategy"
+        >
+          Use by Default
+        </Button>
+        <Button
+          variant="ghost"
+          className="text-destructive"
+          onClick={handleDelete}
+          disabled={profiles.length <= 1 || profile.id === activeProfileId || usedBy.length > 0}
+          data-testid="button-delete-strategy"
+        >
+          <Trash2 className="w-4 h-4 mr-2" /> Delete
+        </Button>
+        {usedBy.length > 0 && (
+          <span className="text-[10px] text-muted-foreground" data-testid="text-strategy-used-by">
+            Used by {usedBy.join(', ')}; clear their strategy override to delete it.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ClampedNumberInput } from '@/components/dashboard/clamped-number-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play, Square, Plus, X } from 'lucide-react';
+import type { WatchlistEntry, SymbolOverrides } from '@/lib/settings';
+import { RISK_PERCENT_LIMITS } from '@/lib/settings';
+import type { Ticker } from '@/lib/market';
+import type { BotStatus } from '@/lib/bot';
+import { AI_PROVIDERS, PROVIDER_LABELS } from '@/lib/providers';
+import type { ProviderId } from '@/lib/providers';
+import type { StrategyProfile } from '@/lib/strategy';
+
+type WatchlistProps = {
+  entries: WatchlistEntry[];
+  tickers: Ticker[];
+  bots: BotStatus[];
+  focusedSymbol: string;
+  isBusy: boolean;
+  isHalted: boolean;
+  onFocus: (symbol: string) => void;
+  onToggleBot: (symbol: string) => void;
+  onAdd: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+};
+
+export function Watchlist({
+  entries, tickers, bots, focusedSymbol, isBusy, isHalted, onFocus, onToggleBot, onAdd, onRemove
+}: WatchlistProps) {
+  const [newSymbol, setNewSymbol] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol || entries.some(entry => entry.symbol === symbol)) return;
+    onAdd(symbol);
+    setNewSymbol('');
+  };
+
+  return (
+    <Card className="p-6" data-testid="watchlist">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-wider">Watchlist</h3>
+        <form onSubmit={handleAdd} className="flex items-center gap-2">
+          <Input
+            value={newSymbol}
+            onChange={e => setNewSymbol(e.target.value)}
+            placeholder="ETHUSDT"
+            className="h-8 w-32 font-mono uppercase text-xs"
+            data-testid="input-watchlist-symbol"
+          />
+          <Button type="submit" variant="outline" size="sm" className="h-8" data-testid="button-watchlist-add">
+            <Plus className="w-3 h-3" />
+          </Button>
+        </form>
+      </div>
+      <div className="divide-y divide-border">
+        {entries.map(({ symbol }) => {
+          const ticker = tickers.find(t => t.symbol === symbol);
+          const isRunning = !!bots.find(b => b.symbol === symbol)?.isRunning;
+          const isFocused = symbol === focusedSymbol;
+          return (
+            <div
+              key={symbol}
+              onClick={() => onFocus(symbol)}
+              className={`flex items-center gap-4 py-2 px-2 rounded-md cursor-pointer hover-elevate ${isFocused ? 'bg-muted' : ''}`}
+              data-testid={`row-watchlist-${symbol}`}
+            >
+              <div className={`w-2 h-2 rounded-full shrink-0 ${isRunning ? 'bg-green-500 animate-pulse' : 'bg-muted-foreground/30'}`} />
+              <span className="font-bold text-sm flex-1">{symbol}</span>
+              <span className="font-mono text-sm" data-testid={`text-watchlist-price-${symbol}`}>
+                {ticker ? ticker.price.toLocaleString() : '--'}
+              </span>
+              <span className={`font-mono text-xs w-16 text-right ${(ticker?.change24h ?? 0) >= 0 ? 'text-green-500' : 'text-destructive'}`}>
+                {ticker ? `${ticker.change24h >= 0 ? '+' : ''}${ticker.change24h.toFixed(2)}%` : '--'}
+              </span>
+              <Button
+                variant={isRunning ? 'destructive' : 'ghost'}
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={isBusy || (!isRunning && isHalted)}
+                onClick={e => { e.stopPropagation(); onToggleBot(symbol); }}
+                data-testid={`button-watchlist-bot-${symbol}`}
+              >
+                {isRunning ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-muted-foreground"
+                disabled={isFocused || isRunning}
+                onClick={e => { e.stopPropagation(); onRemove(symbol); }}
+                data-testid={`button-watchlist-remove-${symbol}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
+
+type SymbolOverridesEditorProps = {
+  entries: WatchlistEntry[];
+  profiles: StrategyProfile[];
+  onChange: (symbol: string, overrides: SymbolOverrides) => void;
+};
+
+const INHERIT = 'inherit';
+
+// Blank fields fall back to the global Bot Config values.
+export function SymbolOverridesEditor({ entries, profiles, onChange }: SymbolOverridesEditorProps) {
+  const update = (entry: WatchlistEntry, key: keyof SymbolOverrides, value: SymbolOverrides[keyof SymbolOverrides]) => {
+    const next = { ...entry.overrides };
+    if (value === undefined) delete next[key];
+    else Object.assign(next, { [key]: value });
+    onChange(entry.symbol, next);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="symbol-overrides">
+      <div className="grid grid-cols-6 gap-3 text-[10px] font-bold text-muted-foreground uppercase">
+        <span>Symbol</span>
+        <span>Leverage</span>
+        <span>Pulse (Min)</span>
+        <span>Risk %</span>
+        <span>Provider</span>
+        <span>Strategy</span>
+      </div>
+      {entries.map(entry => (
+        <div key={entry.symbol} className="grid grid-cols-6 gap-3 items-center" data-testid={`row-overrides-${entry.symbol}`}>
+          <span className="font-bold text-sm">{entry.symbol}</span>
+          <ClampedNumberInput
+            isOptional
+            placeholder="Global"
+            className="text-center"
+            value={entry.overrides.defaultLeverage}
+            min={1}
+            max={125}
+            isInteger
+            onChange={v => update(entry, 'defaultLeverage', v)}
+            testId={`input-override-leverage-${entry.symbol}`}
+          />
+          <ClampedNumberInput
+            isOptional
+            placeholder="Global"
+            className="text-center"
+            value={entry.overrides.intervalMinutes}
+            min={1}
+            isInteger
+            onChange={v => update(entry, 'intervalMinutes', v)}
+            testId={`input-override-interval-${entry.symbol}`}
+          />
+          <ClampedNumberInput
+            isOptional
+            placeholder="Global"
+            className="text-center"
+            value={entry.overrides.riskPercent}
+            {...RISK_PERCENT_LIMITS}
+            onChange={v => update(entry, 'riskPercent', v)}
+            testId={`input-override-risk-${entry.symbol}`}
+          />
+          <Select
+            value={entry.overrides.aiProvider ?? INHERIT}
+            onValueChange={v => update(entry, 'aiProvider', v === INHERIT ? undefined : v as ProviderId)}
+          >
+            <SelectTrigger data-testid={`select-override-provider-${entry.symbol}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT}>Global</SelectItem>
+              {AI_PROVIDERS.map(p => <SelectItem key={p} value={p}>{PROVIDER_LABELS[p]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select
+            value={entry.overrides.strategyProfileId ?? INHERIT}
+            onValueChange={v => update(entry, 'strategyProfileId', v === INHERIT ? undefined : v)}
+          >
+            <SelectTrigger data-testid={`select-override-strategy-${entry.symbol}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT}>Global</SelectItem>
+              {profiles.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getQueryFn } from "@/lib/queryClient";
+
+export type SessionUser = {
+  id: string;
+  username: string;
+};
+
+export type LoginCredentials = {
+  username: string;
+  password: string;
+};
+
+const SESSION_QUERY_KEY = ["/api/auth/me"];
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<SessionUser | null>({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginCredentials) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (sessionUser) => {
+      queryClient.setQueryData(SESSION_QUERY_KEY, sessionUser);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSettled: () => {
+      queryClient.setQueryData(SESSION_QUERY_KEY, null);
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    logoutMutation,
+  };
+}
@@ -0,0 +1,60 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { BotStatus, BotConfig } from "@/lib/bot";
+
+const BOTS_QUERY_KEY = ["/api/bots"];
+const STATUS_POLL_MS = 15000;
+
+type SymbolConfig = {
+  symbol: string;
+  config: BotConfig;
+};
+
+// One server-side bot instance runs per watchlist symbol.
+export function useBots(enabled: boolean) {
+  const { data: bots = [], isLoading } = useQuery<BotStatus[]>({
+    queryKey: BOTS_QUERY_KEY,
+    enabled,
+    refetchInterval: STATUS_POLL_MS,
+  });
+
+  const onStatus = (next: BotStatus) => {
+    queryClient.setQueryData<BotStatus[]>(BOTS_QUERY_KEY, (prev = []) => [
+      ...prev.filter(b => b.symbol !== next.symbol),
+      next,
+    ]);
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async ({ symbol, config }: SymbolConfig) => {
+      const res = await apiRequest("POST", `/api/bots/${symbol}/start`, config);
+      return (await res.json()) as BotStatus;
+    },
+    onSuccess: onStatus,
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (symbol: string) => {
+      const res = await apiRequest("POST", `/api/bots/${symbol}/stop`);
+      return (await res.json()) as BotStatus;
+    },
+    onSuccess: onStatus,
+  });
+
+  const configMutation = useMutation({
+    mutationFn: async ({ symbol, config }: SymbolConfig) => {
+      const res = await apiRequest("PUT", `/api/bots/${symbol}/config`, config);
+      return (await res.json()) as BotStatus;
+    },
+    onSuccess: onStatus,
+  });
+
+  return {
+    bots,
+    runningBots: bots.filter(b => b.isRunning),
+    isLoading,
+    startMutation,
+    stopMutation,
+    configMutation,
+  };
+}
@@ -0,0 +1,46 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { CredentialKind } from "@/lib/settings";
+
+export type StoredCredential = {
+  id: string;
+  kind: CredentialKind;
+  fingerprint: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+export type NewCredential = {
+  kind: CredentialKind;
+  secrets: Record<string, string>;
+};
+
+const CREDENTIALS_QUERY_KEY = ["/api/credentials"];
+
+export function useCredentials(enabled: boolean) {
+  const { data: credentials = [], isLoading } = useQuery<StoredCredential[]>({
+    queryKey: CREDENTIALS_QUERY_KEY,
+    enabled,
+  });
+
+  const storeMutation = useMutation({
+    mutationFn: async (credential: NewCredential) => {
+      const res = await apiRequest("POST", "/api/credentials", credential);
+      return (await res.json()) as StoredCredential;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CREDENTIALS_QUERY_KEY });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/credentials/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CREDENTIALS_QUERY_KEY });
+    },
+  });
+
+  return { credentials, isLoading, storeMutation, revokeMutation };
+}
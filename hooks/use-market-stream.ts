@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+
+export type StreamStatus = "CONNECTING" | "OPEN" | "RECONNECTING" | "CLOSED";
+
+export type StreamTicker = {
+  symbol: string;
+  price: number;
+  change24h: number;
+  high24h?: number;
+  low24h?: number;
+  volume24h?: number;
+};
+
+export type StreamTrade = {
+  price: number;
+  quantity: number;
+  side: "BUY" | "SELL";
+  time: number;
+};
+
+export type DepthLevel = [price: number, quantity: number];
+
+export type StreamDepth = {
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+  time: number;
+};
+
+// Messages relayed by the server from the MEXC public stream.
+type StreamMessage =
+  | { channel: "ticker"; symbol: string; data: StreamTicker; ts: number }
+  | { channel: "trades"; symbol: string; data: StreamTrade[]; ts: number }
+  | { channel: "depth"; symbol: string; data: StreamDepth; ts: number }
+  | { type: "pong"; clientTs: number };
+
+const STREAM_PATH = "/ws/market";
+const PING_INTERVAL_MS = 10000;
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const MAX_TRADES = 50;
+
+function streamUrl() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${STREAM_PATH}`;
+}
+
+export function useMarketStream(symbol: string, onTicker: (ticker: StreamTicker) => void) {
+  const [status, setStatus] = useState<StreamStatus>("CONNECTING");
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const [trades, setTrades] = useState<StreamTrade[]>([]);
+  const [depth, setDepth] = useState<StreamDepth | null>(null);
+  const onTickerRef = useRef(onTicker);
+  onTickerRef.current = onTicker;
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let pingTimer: number | undefined;
+    let reconnectTimer: number | undefined;
+    let attempt = 0;
+    let disposed = false;
+
+    setTrades([]);
+    setDepth(null);
+
+    const scheduleReconnect = () => {
+      if (disposed) return;
+      // Exponential backoff with full jitter so many tabs do not reconnect in lockstep.
+      const ceiling = Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** attempt);
+      attempt++;
+      setStatus("RECONNECTING");
+      reconnectTimer = window.setTimeout(connect, Math.random() * ceiling);
+    };
+
+    const connect = () => {
+      if (disposed) return;
+      socket = new WebSocket(streamUrl());
+
+      socket.onopen = () => {
+        attempt = 0;
+        setStatus("OPEN");
+        socket?.send(JSON.stringify({ op: "subscribe", symbol, channels: ["ticker", "trades", "depth"] }));
+        pingTimer = window.setInterval(() => {
+          socket?.send(JSON.stringify({ op: "ping", clientTs: Date.now() }));
+        }, PING_INTERVAL_MS);
+      };
+
+      socket.onmessage = (event) => {
+        let message: StreamMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        if ("type" in message) {
+          setLatencyMs(Date.now() - message.clientTs);
+          return;
+        }
+        if (message.symbol !== symbol) return;
+        if (message.channel === "ticker") onTickerRef.current(message.data);
+        else if (message.channel === "trades") setTrades(prev => [...message.data, ...prev].slice(0, MAX_TRADES));
+        else if (message.channel === "depth") setDepth(message.data);
+      };
+
+      socket.onclose = () => {
+        window.clearInterval(pingTimer);
+        socket = null;
+        // The book is a snapshot of the live connection; after a drop it no longer describes the market.
+        setDepth(null);
+        scheduleReconnect();
+      };
+
+      socket.onerror = () => {
+        socket?.close();
+      };
+    };
+
+    setStatus("CONNECTING");
+    connect();
+
+    return () => {
+      disposed = true;
+      window.clearInterval(pingTimer);
+      window.clearTimeout(reconnectTimer);
+      socket?.close();
+      setStatus("CLOSED");
+    };
+  }, [symbol]);
+
+  return { status, latencyMs, trades, depth };
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { DashboardSettings } from "@/lib/settings";
+import type { DashboardLog } from "@/lib/logs";
+import { isSyncConfigured, checkConnection, pushSettings, pullSettings, pushLog } from "@/lib/supabase-sync";
+import type { SyncConfig, SyncStatus, PullResult } from "@/lib/supabase-sync";
+
+// Waits for typing in the URL/key fields to settle before probing the endpoint.
+const CHECK_DEBOUNCE_MS = 800;
+const HEALTH_POLL_MS = 60000;
+
+// Status follows the outcome of the latest request, so the badge reflects real reachability rather than configuration.
+export function useSupabaseSync(config: SyncConfig, username: string | null) {
+  const [status, setStatus] = useState<SyncStatus>("DISCONNECTED");
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  // Ignores results for a config the user has since edited away from.
+  const isCurrent = (c: SyncConfig) => c.url === configRef.current.url && c.anonKey === configRef.current.anonKey;
+
+  const track = useCallback(async <T>(operation: (config: SyncConfig) => Promise<T>): Promise<T> => {
+    const current = configRef.current;
+    try {
+      const result = await operation(current);
+      if (isCurrent(current)) {
+        setStatus("CONNECTED");
+        setLastError(null);
+        setLastSyncedAt(new Date().toISOString());
+      }
+      return result;
+    } catch (err) {
+      if (isCurrent(current)) {
+        setStatus("ERROR");
+        setLastError(err instanceof Error ? err.message : "Unknown");
+      }
+      throw err;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isSyncConfigured(config)) {
+      setStatus("DISCONNECTED");
+      setLastError(null);
+      return;
+    }
+    const probe = () => track(checkConnection).catch(() => undefined);
+    const timeout = setTimeout(probe, CHECK_DEBOUNCE_MS);
+    const interval = setInterval(probe, HEALTH_POLL_MS);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [config.url, config.anonKey, track]);
+
+  // Resolves to false when there is nothing to sync to (signed out or no URL).
+  const syncSettings = useCallback(async (settings: DashboardSettings, updatedAt: string): Promise<boolean> => {
+    if (!username || !isSyncConfigured(configRef.current)) return false;
+    await track(c => pushSettings(c, username, settings, updatedAt));
+    return true;
+  }, [username, track]);
+
+  const pull = useCallback(async (localUpdatedAt: string | null): Promise<PullResult | null> => {
+    if (!username || !isSyncConfigured(configRef.current)) return null;
+    return await track(c => pullSettings(c, username, localUpdatedAt));
+  }, [username, track]);
+
+  // Log streaming is best effort; a failure only shows up in the status badge.
+  const syncLog = useCallback((log: DashboardLog) => {
+    if (!isSyncConfigured(configRef.current)) return;
+    track(c => pushLog(c, log)).catch(() => undefined);
+  }, [track]);
+
+  return { status, lastError, lastSyncedAt, syncSettings, pull, syncLog };
+}
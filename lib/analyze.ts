@@ -0,0 +1,123 @@
+import type { MarketData, PositionSide } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import type { DashboardSettings } from "@/lib/settings";
+import type { ProviderId, ProviderTarget } from "@/lib/providers";
+import { getProviderTarget } from "@/lib/providers";
+import type { RenderedPrompt } from "@/lib/strategy";
+import { checkTradeAction, DecisionRejectedError } from "@/lib/decision-schema";
+import type { BracketedTradeAction } from "@/lib/brackets";
+import type { IndicatorSnapshot } from "@/lib/indicators";
+import type { OrderBookSnapshot } from "@/lib/order-book";
+
+export type ReplayMode = "cached" | "mock";
+
+// One retry after an answer that fails validation even once repaired.
+const MAX_ATTEMPTS = 2;
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+// What it took to get one provider's answer, kept for the decision journal.
+export type DecisionTrace = {
+  provider: ProviderId;
+  rawOutput: string;
+  attempts: number;
+  latencyMs: number;
+  // Summed over attempts; null when the server did not report usage.
+  usage: TokenUsage | null;
+};
+
+export type TracedDecision = BracketedTradeAction & { trace: DecisionTrace };
+
+export type AnalyzeRequest = {
+  settings: ProviderTarget & {
+    tradingSymbol: string;
+    defaultLeverage: number;
+  };
+  marketData: MarketData;
+  indicators?: IndicatorSnapshot;
+  // Top-of-book figures from the live depth stream; absent when the stream has no book yet.
+  orderBook?: OrderBookSnapshot;
+  prompt?: RenderedPrompt;
+  currentPositionSide: PositionSide;
+  // Set by the backtester: the server answers from its response cache instead of calling the model.
+  replay?: {
+    mode: "cached";
+    timestamp: number;
+  };
+  // Set on a retry so the server can tell the model what was wrong with its previous answer.
+  retry?: {
+    attempt: number;
+    issues: string[];
+  };
+};
+
+export function buildAnalyzeRequest(
+  settings: DashboardSettings,
+  marketData: MarketData,
+  currentPositionSide: PositionSide,
+  indicators?: IndicatorSnapshot,
+  prompt?: RenderedPrompt,
+  orderBook?: OrderBookSnapshot,
+): AnalyzeRequest {
+  return {
+    settings: {
+      ...getProviderTarget(settings),
+      tradingSymbol: settings.tradingSymbol,
+      defaultLeverage: settings.defaultLeverage,
+    },
+    marketData,
+    indicators,
+    orderBook,
+    prompt,
+    currentPositionSide,
+  };
+}
+
+type ResponseBody = {
+  decision: unknown;
+  usage: TokenUsage | null;
+};
+
+// The server normally returns the parsed action; when its own parse fails it passes the model text through as `raw`.
+// Either shape may carry a `usage` object with the provider's token counts.
+function parseResponseBody(text: string): ResponseBody {
+  try {
+    const body = JSON.parse(text);
+    if (!body || typeof body !== "object") return { decision: body, usage: null };
+    const usage = body.usage && typeof body.usage.promptTokens === "number" && typeof body.usage.completionTokens === "number"
+      ? { promptTokens: body.usage.promptTokens, completionTokens: body.usage.completionTokens }
+      : null;
+    if (!("action" in body) && typeof body.raw === "string") return { decision: body.raw, usage };
+    return { decision: body, usage };
+  } catch {
+    return { decision: text, usage: null };
+  }
+}
+
+function addUsage(total: TokenUsage | null, next: TokenUsage | null): TokenUsage | null {
+  if (!total || !next) return total ?? next;
+  return { promptTokens: total.promptTokens + next.promptTokens, completionTokens: total.completionTokens + next.completionTokens };
+}
+
+export async function requestDecision(request: AnalyzeRequest): Promise<TracedDecision> {
+  const startedAt = performance.now();
+  let rawOutput = "";
+  let issues: string[] = [];
+  let usage: TokenUsage | null = null;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const res = await apiRequest("POST", "/api/ai/analyze", attempt === 1 ? request : { ...request, retry: { attempt, issues } });
+    rawOutput = await res.text();
+    const body = parseResponseBody(rawOutput);
+    usage = addUsage(usage, body.usage);
+    const check = checkTradeAction(body.decision);
+    if ("decision" in check) {
+      const latencyMs = Math.round(performance.now() - startedAt);
+      return { ...check.decision, trace: { provider: request.settings.aiProvider, rawOutput, attempts: attempt, latencyMs, usage } };
+    }
+    issues = check.issues;
+  }
+  throw new DecisionRejectedError(`Model output rejected after ${MAX_ATTEMPTS} attempts: ${issues.join("; ")}`, rawOutput, issues);
+}
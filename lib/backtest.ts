@@ -0,0 +1,168 @@
+import type { PositionSide } from "@shared/schema";
+import type { Candle, KlineInterval } from "@/lib/market";
+import { INTERVAL_MS } from "@/lib/market";
+import type { BracketConfig, BracketedTradeAction } from "@/lib/brackets";
+import { resolveBrackets } from "@/lib/brackets";
+import { ema, atr } from "@/lib/indicators";
+import type { PaperAccount, PaperConfig, PaperTrade } from "@/lib/paper-exchange";
+import {
+  createPaperAccount, applyPaperDecision, markPaperAccount, closePaperPositions, getPaperBalances,
+} from "@/lib/paper-exchange";
+
+export type BacktestConfig = {
+  symbol: string;
+  interval: KlineInterval;
+  startingBalance: number;
+  leverage: number;
+  riskPercent: number;
+  paper: PaperConfig;
+  brackets: BracketConfig;
+  // Candles fed to the decider before the first decision is taken.
+  warmup: number;
+};
+
+export type Decider = (window: Candle[], positionSide: PositionSide) => Promise<BracketedTradeAction>;
+
+export type EquityPoint = {
+  time: number;
+  equity: number;
+};
+
+export type BacktestStats = {
+  totalReturnPercent: number;
+  winRate: number;
+  closedTrades: number;
+  sharpe: number;
+  maxDrawdownPercent: number;
+  finalEquity: number;
+};
+
+export type BacktestResult = {
+  equityCurve: EquityPoint[];
+  trades: PaperTrade[];
+  stats: BacktestStats;
+};
+
+const YEAR_MS = 365 * 86_400_000;
+
+function equityOf(account: PaperAccount) {
+  return Number(getPaperBalances(account)[0].total);
+}
+
+function positionSideOf(account: PaperAccount, symbol: string): PositionSide {
+  return account.positions.find(p => p.symbol === symbol)?.side ?? "NONE";
+}
+
+// Walks the bar's range in the order least favourable to the open position so a bar that
+// touches both brackets resolves to the stop.
+function intrabarPath(candle: Candle, side: PositionSide) {
+  return side === "SHORT"
+    ? [candle.open, candle.high, candle.low, candle.close]
+    : [candle.open, candle.low, candle.high, candle.close];
+}
+
+export function computeBacktestStats(curve: EquityPoint[], trades: PaperTrade[], interval: KlineInterval, startingBalance: number): BacktestStats {
+  const finalEquity = curve.length > 0 ? curve[curve.length - 1].equity : startingBalance;
+  const closing = trades.filter(t => t.pnl !== 0);
+  const wins = closing.filter(t => t.pnl > 0).length;
+
+  const returns = curve.slice(1).map((p, i) => curve[i].equity > 0 ? p.equity / curve[i].equity - 1 : 0);
+  const mean = returns.reduce((s, r) => s + r, 0) / (returns.length || 1);
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length || 1);
+  const std = Math.sqrt(variance);
+  const periodsPerYear = YEAR_MS / INTERVAL_MS[interval];
+
+  let peak = startingBalance;
+  let maxDrawdownPercent = 0;
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) maxDrawdownPercent = Math.max(maxDrawdownPercent, (peak - point.equity) / peak * 100);
+  }
+
+  return {
+    totalReturnPercent: (finalEquity - startingBalance) / startingBalance * 100,
+    winRate: closing.length > 0 ? wins / closing.length * 100 : 0,
+    closedTrades: closing.length,
+    sharpe: std > 0 ? mean / std * Math.sqrt(periodsPerYear) : 0,
+    maxDrawdownPercent,
+    finalEquity,
+  };
+}
+
+export async function runBacktest(
+  candles: Candle[],
+  config: BacktestConfig,
+  decide: Decider,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<BacktestResult> {
+  if (candles.length <= config.warmup) {
+    throw new Error(`Need more than ${config.warmup} candles, got ${candles.length}`);
+  }
+
+  let account = createPaperAccount(config.startingBalance);
+  const equityCurve: EquityPoint[] = [];
+  const total = candles.length - config.warmup;
+  // Wilder ATR at a bar only depends on the bars up to it, so one pass up front has no lookahead.
+  const atrSeries = atr(candles);
+
+  for (let i = config.warmup; i < candles.length; i++) {
+    if (signal?.aborted) throw new Error("Backtest cancelled");
+    const candle = candles[i];
+
+    // The open can gap through a bracket and fills there; after it the path is continuous, so brackets fill at their level.
+    intrabarPath(candle, positionSideOf(account, config.symbol)).forEach((price, step) => {
+      account = markPaperAccount(account, config.symbol, price, config.paper, candle.time, step === 0 ? "price" : "level").account;
+    });
+
+    const window = candles.slice(0, i + 1);
+    const decision = await decide(window, positionSideOf(account, config.symbol));
+    if (decision.action !== "WAIT") {
+      const brackets = resolveBrackets(decision, candle.close, config.brackets, atrSeries[i]);
+      account = applyPaperDecision(
+        account,
+        config.symbol,
+        decision,
+        brackets,
+        candle.close,
+        { riskPercent: config.riskPercent, leverage: config.leverage },
+        config.paper,
+        candle.time,
+      ).account;
+    }
+
+    equityCurve.push({ time: candle.time, equity: equityOf(account) });
+    onProgress?.(i - config.warmup + 1, total);
+  }
+
+  const last = candles[candles.length - 1];
+  account = closePaperPositions(account, () => last.close, () => "FLATTEN", config.paper, last.time).account;
+  equityCurve.push({ time: last.time, equity: equityOf(account) });
+
+  const trades = [...account.trades].reverse();
+  return {
+    equityCurve,
+    trades,
+    stats: computeBacktestStats(equityCurve, trades, config.interval, config.startingBalance),
+  };
+}
+
+// Offline stand-in for the model: a 9/21 EMA crossover. Lets the fill and stats machinery be
+// exercised without an AI key or a warm response cache.
+export const mockDecider: Decider = async (window) => {
+  const closes = window.map(c => c.close);
+  const fast = ema(closes, 9);
+  const slow = ema(closes, 21);
+  const n = closes.length - 1;
+  const spread = (fast[n] - slow[n]) / slow[n] * 100;
+  const prevSpread = (fast[n - 1] - slow[n - 1]) / slow[n - 1] * 100;
+  const confidence = Math.min(95, Math.round(50 + Math.abs(spread) * 100));
+
+  if (prevSpread <= 0 && spread > 0) {
+    return { action: "LONG", confidence, reason: "Mock: EMA9 crossed above EMA21" };
+  }
+  if (prevSpread >= 0 && spread < 0) {
+    return { action: "SHORT", confidence, reason: "Mock: EMA9 crossed below EMA21" };
+  }
+  return { action: "WAIT", confidence: 50, reason: "Mock: no crossover" };
+};
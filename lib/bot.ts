@@ -0,0 +1,78 @@
+import type { TradeAction } from "@shared/schema";
+import type { DashboardSettings } from "@/lib/settings";
+import { getBracketConfig, getRiskLimits, getGateConfig } from "@/lib/settings";
+import type { BracketConfig } from "@/lib/brackets";
+import type { RiskLimits } from "@/lib/risk";
+import type { GateConfig } from "@/lib/gates";
+import type { KlineInterval } from "@/lib/market";
+import type { ConsensusRule } from "@/lib/consensus";
+import { getConfiguredProviders } from "@/lib/consensus";
+import type { ProviderTarget } from "@/lib/providers";
+import { getProviderTarget } from "@/lib/providers";
+import type { StrategyProfile, StrategyVersion } from "@/lib/strategy";
+import type { BotCycleTrace } from "@/lib/journal";
+import { resolveProfile, getLatestVersion } from "@/lib/strategy";
+
+// Run state persisted by the server-side scheduler that owns the trading cycle.
+export type BotStatus = {
+  isRunning: boolean;
+  symbol: string;
+  intervalMinutes: number;
+  startedAt: string | null;
+  lastHeartbeat: string | null;
+  nextRunAt: string | null;
+  lastDecision: TradeAction | null;
+  lastDecisionAt: string | null;
+  lastError: string | null;
+  // Newest first, with the prompt and per-call traces; absent from schedulers that only report the parsed decision.
+  recentCycles?: BotCycleTrace[];
+};
+
+export type BotConfig = {
+  symbol: string;
+  aiProvider: DashboardSettings["aiProvider"];
+  aiCredentialId?: string;
+  customProvider?: ProviderTarget["custom"];
+  // Set in consensus mode; the scheduler then queries each provider and combines the votes.
+  consensus: {
+    rule: ConsensusRule;
+    providers: ProviderTarget[];
+  } | null;
+  // Latest version of the bot's strategy profile; the scheduler renders the template each cycle.
+  strategy: StrategyVersion & { profileId: string };
+  mexcCredentialId?: string;
+  leverage: number;
+  riskPercent: number;
+  brackets: BracketConfig;
+  riskLimits: RiskLimits;
+  gates: GateConfig;
+  intervalMinutes: number;
+  indicatorInterval: KlineInterval;
+  isLiveMode: boolean;
+};
+
+export function buildBotConfig(settings: DashboardSettings, profiles: StrategyProfile[]): BotConfig {
+  const profile = resolveProfile(profiles, settings.strategyProfileId);
+  return {
+    symbol: settings.tradingSymbol,
+    aiProvider: settings.aiProvider,
+    aiCredentialId: settings.credentialIds[settings.aiProvider],
+    customProvider: getProviderTarget(settings).custom,
+    consensus: settings.aiMode === "consensus"
+      ? {
+          rule: settings.consensusRule,
+          providers: getConfiguredProviders(settings).map(provider => getProviderTarget(settings, provider)),
+        }
+      : null,
+    strategy: { ...getLatestVersion(profile), profileId: profile.id },
+    mexcCredentialId: settings.credentialIds.mexc,
+    leverage: settings.defaultLeverage,
+    riskPercent: settings.riskPercent,
+    brackets: getBracketConfig(settings),
+    riskLimits: getRiskLimits(settings),
+    gates: getGateConfig(settings),
+    intervalMinutes: settings.intervalMinutes,
+    indicatorInterval: settings.indicatorInterval,
+    isLiveMode: settings.isLiveMode,
+  };
+}
@@ -0,0 +1,88 @@
+import type { TradeAction, Position } from "@shared/schema";
+import type { Candle } from "@/lib/market";
+import { atr } from "@/lib/indicators";
+
+export type BracketedTradeAction = TradeAction & {
+  stopLoss?: number;
+  takeProfit?: number;
+};
+
+export type BracketedPosition = Position & {
+  stopLoss?: number;
+  takeProfit?: number;
+};
+
+export type BracketMode = "fixed" | "atr";
+
+export type BracketConfig = {
+  mode: BracketMode;
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  atrStopMultiplier: number;
+  atrTakeProfitMultiplier: number;
+};
+
+export type Brackets = {
+  stopLoss: number;
+  takeProfit: number;
+  stopDistancePercent: number;
+  source: "ai" | BracketMode;
+};
+
+// Wilder ATR of the newest candle; null until there are enough candles. Callers pass klines on the indicator interval.
+export function latestAtr(candles: Candle[]): number | null {
+  const series = atr(candles);
+  return series.length > 0 ? series[series.length - 1] : null;
+}
+
+function isValidBracket(side: "LONG" | "SHORT", entry: number, stopLoss?: number, takeProfit?: number) {
+  if (!stopLoss || !takeProfit || stopLoss <= 0 || takeProfit <= 0) return false;
+  return side === "LONG"
+    ? stopLoss < entry && takeProfit > entry
+    : stopLoss > entry && takeProfit < entry;
+}
+
+// Prefers the levels the AI returned; falls back to the configured fixed-percent or ATR brackets
+// when they are missing or sit on the wrong side of the entry.
+export function resolveBrackets(
+  decision: BracketedTradeAction,
+  entryPrice: number,
+  config: BracketConfig,
+  atr: number | null,
+): Brackets | null {
+  if (decision.action !== "LONG" && decision.action !== "SHORT") return null;
+  if (entryPrice <= 0) return null;
+  const side = decision.action;
+  const direction = side === "LONG" ? 1 : -1;
+
+  let stopLoss: number;
+  let takeProfit: number;
+  let source: Brackets["source"];
+
+  if (isValidBracket(side, entryPrice, decision.stopLoss, decision.takeProfit)) {
+    stopLoss = decision.stopLoss!;
+    takeProfit = decision.takeProfit!;
+    source = "ai";
+  } else if (config.mode === "atr" && atr && atr > 0 && entryPrice - direction * atr * config.atrStopMultiplier > 0) {
+    // A LONG stop several ATRs below a low-priced entry can land at or under zero; that falls back to the fixed stop.
+    stopLoss = entryPrice - direction * atr * config.atrStopMultiplier;
+    takeProfit = entryPrice + direction * atr * config.atrTakeProfitMultiplier;
+    source = "atr";
+  } else {
+    stopLoss = entryPrice * (1 - direction * config.stopLossPercent / 100);
+    takeProfit = entryPrice * (1 + direction * config.takeProfitPercent / 100);
+    source = "fixed";
+  }
+
+  return {
+    stopLoss,
+    takeProfit,
+    stopDistancePercent: Math.abs(entryPrice - stopLoss) / entryPrice * 100,
+    source,
+  };
+}
+
+export function distancePercent(from: number, to: number): number {
+  if (from <= 0) return 0;
+  return (to - from) / from * 100;
+}
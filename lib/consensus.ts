@@ -0,0 +1,120 @@
+import type { BracketedTradeAction } from "@/lib/brackets";
+import type { AnalyzeRequest, DecisionTrace, TracedDecision } from "@/lib/analyze";
+import { requestDecision } from "@/lib/analyze";
+import type { DashboardSettings } from "@/lib/settings";
+import { DecisionRejectedError } from "@/lib/decision-schema";
+import type { ProviderId } from "@/lib/providers";
+import { AI_PROVIDERS, getProviderTarget, isProviderConfigured } from "@/lib/providers";
+
+export type ConsensusRule = "unanimous" | "majority" | "weighted";
+
+export type ModelVote = {
+  provider: ProviderId;
+  decision: TracedDecision | null;
+  error: string | null;
+  // Model text of a rejected answer, kept for the log.
+  rawOutput: string | null;
+  latencyMs: number;
+};
+
+export type ConsensusDecision = BracketedTradeAction & {
+  // Present on a single-provider decision; a consensus keeps one per vote instead.
+  trace?: DecisionTrace;
+  // Present when the decision was combined from several models.
+  consensus?: {
+    rule: ConsensusRule;
+    votes: ModelVote[];
+  };
+};
+
+type Action = BracketedTradeAction["action"];
+
+// Consensus only asks models it can actually reach.
+export function getConfiguredProviders(settings: DashboardSettings): ProviderId[] {
+  return AI_PROVIDERS.filter(p => isProviderConfigured(settings, p));
+}
+
+function average(values: number[]) {
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : undefined;
+}
+
+// `voteCount` is every provider asked, answered or not: a provider that errored counts against agreement,
+// so one surviving vote cannot pass for a consensus on its own.
+function pickAction(decisions: BracketedTradeAction[], rule: ConsensusRule, voteCount: number): { action: Action; confidence: number } {
+  const tally = new Map<Action, { count: number; weight: number }>();
+  for (const d of decisions) {
+    const entry = tally.get(d.action) ?? { count: 0, weight: 0 };
+    tally.set(d.action, { count: entry.count + 1, weight: entry.weight + d.confidence });
+  }
+  const ranked = Array.from(tally.entries()).sort((a, b) =>
+    rule === "weighted" ? b[1].weight - a[1].weight : b[1].count - a[1].count);
+  const [action, { count, weight }] = ranked[0];
+  const totalWeight = decisions.reduce((s, d) => s + d.confidence, 0);
+
+  if (rule === "unanimous" && count < voteCount) return { action: "WAIT", confidence: 0 };
+  if (rule === "majority" && count * 2 <= voteCount) return { action: "WAIT", confidence: 0 };
+  if (rule === "weighted") {
+    // Weights only exist for answers, so the weighted rule needs more than half of the providers to have answered.
+    if (decisions.length * 2 <= voteCount) return { action: "WAIT", confidence: 0 };
+    // Ties between the top two weights are treated as no agreement.
+    if (ranked[1] && ranked[1][1].weight === weight) return { action: "WAIT", confidence: 0 };
+    return { action, confidence: Math.round(totalWeight > 0 ? weight / totalWeight * 100 : 0) };
+  }
+  return { action, confidence: Math.round(weight / count) };
+}
+
+export function combineVotes(votes: ModelVote[], rule: ConsensusRule): ConsensusDecision {
+  const decisions = votes.flatMap(v => v.decision ? [v.decision] : []);
+  if (decisions.length === 0) {
+    throw new Error(`No model answered: ${votes.map(v => `${v.provider} ${v.error}`).join("; ")}`);
+  }
+
+  const { action, confidence } = pickAction(decisions, rule, votes.length);
+  const agreeing = decisions.filter(d => d.action === action);
+  const summary = votes.map(v => `${v.provider} ${v.decision ? v.decision.action : "ERROR"}`).join(", ");
+
+  return {
+    action,
+    confidence,
+    reason: agreeing.length > 0 && action !== "WAIT"
+      ? `${rule} consensus (${agreeing.length}/${votes.length}: ${summary}). ${agreeing[0].reason}`
+      : `No ${rule} consensus (${summary})`,
+    stopLoss: action === "WAIT" ? undefined : average(agreeing.flatMap(d => d.stopLoss ? [d.stopLoss] : [])),
+    takeProfit: action === "WAIT" ? undefined : average(agreeing.flatMap(d => d.takeProfit ? [d.takeProfit] : [])),
+    consensus: { rule, votes },
+  };
+}
+
+export async function requestConsensus(
+  request: AnalyzeRequest,
+  settings: DashboardSettings,
+  rule: ConsensusRule,
+): Promise<ConsensusDecision> {
+  const providers = getConfiguredProviders(settings);
+  if (providers.length === 0) throw new Error("Consensus needs at least one configured provider");
+
+  const votes = await Promise.all(providers.map(async (provider): Promise<ModelVote> => {
+    const startedAt = performance.now();
+    try {
+      const decision = await requestDecision({
+        ...request,
+        settings: { ...request.settings, ...getProviderTarget(settings, provider) },
+      });
+      return { provider, decision, error: null, rawOutput: null, latencyMs: Math.round(performance.now() - startedAt) };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Unknown";
+      const rawOutput = err instanceof DecisionRejectedError ? err.rawOutput : null;
+      return { provider, decision: null, error, rawOutput, latencyMs: Math.round(performance.now() - startedAt) };
+    }
+  }));
+
+  // Keeps cache misses during replays recognisable to the backtester.
+  if (votes.every(v => v.error?.startsWith("404"))) throw new Error("404: No provider had a cached response");
+  return combineVotes(votes, rule);
+}
+
+// Entry point for every analyze call: a single provider or the configured consensus.
+export async function requestTradeDecision(request: AnalyzeRequest, settings: DashboardSettings): Promise<ConsensusDecision> {
+  if (settings.aiMode === "consensus") return await requestConsensus(request, settings, settings.consensusRule);
+  return await requestDecision(request);
+}
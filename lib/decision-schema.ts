@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { BracketedTradeAction } from "@/lib/brackets";
+
+export const REASON_MAX_LENGTH = 1000;
+
+export const tradeActionSchema = z.object({
+  action: z.enum(["LONG", "SHORT", "CLOSE", "WAIT"]),
+  confidence: z.number().finite().min(0).max(100),
+  reason: z.string().trim().min(3).max(REASON_MAX_LENGTH),
+  stopLoss: z.number().finite().positive().optional(),
+  takeProfit: z.number().finite().positive().optional(),
+});
+
+// Thrown when a model answer is still invalid after repair and retries; carries the raw text for the log.
+export class DecisionRejectedError extends Error {
+  constructor(message: string, readonly rawOutput: string, readonly issues: string[]) {
+    super(message);
+    this.name = "DecisionRejectedError";
+  }
+}
+
+export type DecisionCheck =
+  | { decision: BracketedTradeAction; repaired: boolean }
+  | { issues: string[] };
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(i => `${i.path.join(".") || "response"}: ${i.message}`);
+}
+
+// Pulls the first JSON object out of prose or a ```json fence.
+function extractJson(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return text;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return text;
+  }
+}
+
+function toNumber(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const parsed = parseFloat(value.replace(/[%,\s]/g, ""));
+  return Number.isFinite(parsed) ? parsed : value;
+}
+
+// Fixes formatting slips models commonly make. Anything that changes meaning is left for the schema to reject.
+export function repairTradeAction(raw: unknown): unknown {
+  const candidate = typeof raw === "string" ? extractJson(raw) : raw;
+  if (!candidate || typeof candidate !== "object" || Array.isArray(candidate)) return candidate;
+  const source = candidate as Record<string, unknown>;
+
+  let confidence = toNumber(source.confidence);
+  // Some models answer 0.85 for 85%. Exactly 1 is a valid (if low) score on the 0-100 scale, so only fractions are rescaled.
+  if (typeof confidence === "number" && confidence > 0 && confidence < 1) confidence = confidence * 100;
+
+  return {
+    ...source,
+    action: typeof source.action === "string" ? source.action.trim().toUpperCase() : source.action,
+    confidence,
+    reason: typeof source.reason === "string" && source.reason.length > REASON_MAX_LENGTH
+      ? source.reason.slice(0, REASON_MAX_LENGTH)
+      : source.reason,
+    stopLoss: source.stopLoss == null ? undefined : toNumber(source.stopLoss),
+    takeProfit: source.takeProfit == null ? undefined : toNumber(source.takeProfit),
+  };
+}
+
+export function checkTradeAction(raw: unknown): DecisionCheck {
+  const strict = tradeActionSchema.safeParse(raw);
+  if (strict.success) return { decision: strict.data, repaired: false };
+  const repaired = tradeActionSchema.safeParse(repairTradeAction(raw));
+  if (repaired.success) return { decision: repaired.data, repaired: true };
+  // The repaired attempt's issues are what is actually left wrong; formatting slips it fixed would only mislead the retry.
+  return { issues: formatIssues(repaired.error) };
+}
@@ -0,0 +1,112 @@
+import type { TradeAction } from "@shared/schema";
+
+export const GATE_STORAGE_KEY = "aegis_signal_gates";
+
+export type GateConfig = {
+  minConfidence: number;
+  // Consecutive identical signals required before acting; 1 acts on the first.
+  confirmations: number;
+  cooldownMinutes: number;
+  noFlipMinutes: number;
+  // Longest gap between two signals that still counts as consecutive; about two bot intervals.
+  signalGapMinutes: number;
+};
+
+// Manual Analyze clicks and bot cycles run on different clocks, so each keeps its own confirmation streak.
+export type SignalSource = "MANUAL" | "BOT";
+
+export type GateName = "MIN_CONFIDENCE" | "CONFIRMATION" | "COOLDOWN" | "NO_FLIP";
+
+export type GateState = {
+  signals: { action: TradeAction["action"]; at: number; source?: SignalSource }[];
+  lastTradeAt: number | null;
+  lastEntry: { side: "LONG" | "SHORT"; at: number } | null;
+};
+
+export type GateResult = {
+  state: GateState;
+  blocked: { gate: GateName; message: string } | null;
+};
+
+const MINUTE_MS = 60_000;
+const MAX_SIGNALS = 20;
+
+export function createGateState(): GateState {
+  return { signals: [], lastTradeAt: null, lastEntry: null };
+}
+
+export function loadGateStates(): Record<string, GateState> {
+  try {
+    const saved = localStorage.getItem(GATE_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load signal gate state", e);
+  }
+  return {};
+}
+
+export function saveGateStates(states: Record<string, GateState>) {
+  localStorage.setItem(GATE_STORAGE_KEY, JSON.stringify(states));
+}
+
+// Counts back from the newest signal of `source`; a different action or a gap longer than `maxGapMs` ends the streak,
+// so a matching signal from an earlier session does not confirm today's.
+function streakOf(signals: GateState["signals"], action: TradeAction["action"], source: SignalSource, maxGapMs: number) {
+  const own = signals.filter(s => s.source === source);
+  let streak = 0;
+  for (let i = own.length - 1; i >= 0 && own[i].action === action; i--) {
+    if (i < own.length - 1 && own[i + 1].at - own[i].at > maxGapMs) break;
+    streak++;
+  }
+  return streak;
+}
+
+// Records the signal, then checks the gates in order. WAIT is recorded (it breaks a streak) but never gated.
+// CLOSE only reduces exposure, so the cooldown and no-flip gates do not apply to it.
+export function evaluateGates(
+  decision: TradeAction,
+  state: GateState,
+  config: GateConfig,
+  source: SignalSource,
+  now = Date.now(),
+): GateResult {
+  const signals = [...state.signals, { action: decision.action, at: now, source }].slice(-MAX_SIGNALS);
+  const next = { ...state, signals };
+  const block = (gate: GateName, message: string): GateResult => ({ state: next, blocked: { gate, message } });
+
+  if (decision.action === "WAIT") return { state: next, blocked: null };
+
+  if (decision.confidence < config.minConfidence) {
+    return block("MIN_CONFIDENCE", `confidence ${decision.confidence}% is below ${config.minConfidence}%`);
+  }
+
+  const streak = streakOf(signals, decision.action, source, config.signalGapMinutes * MINUTE_MS);
+  if (streak < config.confirmations) {
+    return block("CONFIRMATION", `${streak}/${config.confirmations} consecutive ${decision.action} signals`);
+  }
+
+  if (decision.action === "CLOSE") return { state: next, blocked: null };
+
+  if (config.cooldownMinutes > 0 && state.lastTradeAt !== null) {
+    const remaining = state.lastTradeAt + config.cooldownMinutes * MINUTE_MS - now;
+    if (remaining > 0) return block("COOLDOWN", `cooling down for ${Math.ceil(remaining / MINUTE_MS)} more min`);
+  }
+
+  const entry = state.lastEntry;
+  if (config.noFlipMinutes > 0 && entry && entry.side !== decision.action) {
+    const remaining = entry.at + config.noFlipMinutes * MINUTE_MS - now;
+    if (remaining > 0) {
+      return block("NO_FLIP", `${entry.side} opened ${Math.floor((now - entry.at) / MINUTE_MS)} min ago, flip allowed in ${Math.ceil(remaining / MINUTE_MS)} min`);
+    }
+  }
+
+  return { state: next, blocked: null };
+}
+
+export function recordGateTrade(state: GateState, action: TradeAction["action"], now = Date.now()): GateState {
+  return {
+    ...state,
+    lastTradeAt: now,
+    lastEntry: action === "LONG" || action === "SHORT" ? { side: action, at: now } : action === "CLOSE" ? null : state.lastEntry,
+  };
+}
@@ -0,0 +1,286 @@
+import type { Candle, KlineInterval } from "@/lib/market";
+
+export type Cross = "BULLISH" | "BEARISH";
+
+export type CrossState = {
+  fast: number;
+  slow: number;
+  state: Cross;
+  // Bars since the fast average last crossed the slow one; null when no cross is in the window.
+  barsSinceCross: number | null;
+};
+
+export type VolumeLevel = {
+  price: number;
+  volume: number;
+};
+
+export type VolumeProfile = {
+  levels: VolumeLevel[];
+  pointOfControl: number;
+  valueAreaHigh: number;
+  valueAreaLow: number;
+};
+
+// Latest values sent to /api/ai/analyze alongside the ticker.
+export type IndicatorSnapshot = {
+  interval: KlineInterval;
+  candles: number;
+  rsi: number | null;
+  macd: { macd: number; signal: number; histogram: number } | null;
+  emaCross: CrossState | null;
+  smaCross: CrossState | null;
+  bollinger: { upper: number; middle: number; lower: number; percentB: number } | null;
+  atr: number | null;
+  vwap: number | null;
+  volumeProfile: VolumeProfile | null;
+};
+
+// Per-candle values used to draw chart overlays; null until a series has enough history.
+export type IndicatorPoint = {
+  emaFast: number | null;
+  emaSlow: number | null;
+  smaFast: number | null;
+  smaSlow: number | null;
+  bbUpper: number | null;
+  bbMiddle: number | null;
+  bbLower: number | null;
+  vwap: number | null;
+  rsi: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHistogram: number | null;
+  atr: number | null;
+};
+
+export const EMA_FAST = 9;
+export const EMA_SLOW = 21;
+export const SMA_FAST = 50;
+export const SMA_SLOW = 200;
+const RSI_PERIOD = 14;
+const ATR_PERIOD = 14;
+const BOLLINGER_PERIOD = 20;
+const BOLLINGER_WIDTH = 2;
+const MACD_FAST = 12;
+const MACD_SLOW = 26;
+const MACD_SIGNAL = 9;
+const PROFILE_BINS = 24;
+const VALUE_AREA_SHARE = 0.7;
+const DAY_MS = 86_400_000;
+
+export function ema(values: number[], period: number): number[] {
+  const k = 2 / (period + 1);
+  return values.reduce<number[]>((out, v, i) => {
+    out.push(i === 0 ? v : v * k + out[i - 1] * (1 - k));
+    return out;
+  }, []);
+}
+
+export function sma(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((v, i) => {
+    sum += v;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+// Wilder smoothing, seeded with the simple average of the first `period` changes.
+export function rsi(closes: number[], period = RSI_PERIOD): (number | null)[] {
+  const out: (number | null)[] = closes.map(() => null);
+  if (closes.length <= period) return out;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain += Math.max(0, change);
+    loss += Math.max(0, -change);
+  }
+  gain /= period;
+  loss /= period;
+  out[period] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(0, change)) / period;
+    loss = (loss * (period - 1) + Math.max(0, -change)) / period;
+    out[i] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  }
+  return out;
+}
+
+export function macd(closes: number[], fast = MACD_FAST, slow = MACD_SLOW, signal = MACD_SIGNAL) {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, i) => fastEma[i] - slowEma[i]);
+  const signalLine = ema(line, signal);
+  return line.map((m, i) => i < slow - 1
+    ? null
+    : { macd: m, signal: signalLine[i], histogram: m - signalLine[i] });
+}
+
+export function bollinger(closes: number[], period = BOLLINGER_PERIOD, width = BOLLINGER_WIDTH) {
+  const middle = sma(closes, period);
+  return closes.map((_, i) => {
+    const mean = middle[i];
+    if (mean === null) return null;
+    const window = closes.slice(i - period + 1, i + 1);
+    const std = Math.sqrt(window.reduce((s, v) => s + (v - mean) ** 2, 0) / period);
+    return { upper: mean + width * std, middle: mean, lower: mean - width * std };
+  });
+}
+
+// True-range ATR from OHLC candles; lib/brackets keeps a close-only approximation for the ticker history.
+export function atr(candles: Candle[], period = ATR_PERIOD): (number | null)[] {
+  const out: (number | null)[] = candles.map(() => null);
+  if (candles.length <= period) return out;
+  const ranges = candles.map((c, i) => i === 0
+    ? c.high - c.low
+    : Math.max(c.high - c.low, Math.abs(c.high - candles[i - 1].close), Math.abs(c.low - candles[i - 1].close)));
+  let value = ranges.slice(1, period + 1).reduce((s, r) => s + r, 0) / period;
+  out[period] = value;
+  for (let i = period + 1; i < candles.length; i++) {
+    value = (value * (period - 1) + ranges[i]) / period;
+    out[i] = value;
+  }
+  return out;
+}
+
+// Session VWAP, reset at each UTC midnight.
+export function vwap(candles: Candle[]): (number | null)[] {
+  let session = -1;
+  let priceVolume = 0;
+  let volume = 0;
+  return candles.map(c => {
+    const day = Math.floor(c.time / DAY_MS);
+    if (day !== session) {
+      session = day;
+      priceVolume = 0;
+      volume = 0;
+    }
+    priceVolume += (c.high + c.low + c.close) / 3 * c.volume;
+    volume += c.volume;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+}
+
+export function volumeProfile(candles: Candle[], bins = PROFILE_BINS): VolumeProfile | null {
+  if (candles.length === 0) return null;
+  const low = Math.min(...candles.map(c => c.low));
+  const high = Math.max(...candles.map(c => c.high));
+  const step = (high - low) / bins || 1;
+  const volumes = new Array<number>(bins).fill(0);
+  for (const c of candles) {
+    const typical = (c.high + c.low + c.close) / 3;
+    volumes[Math.min(bins - 1, Math.floor((typical - low) / step))] += c.volume;
+  }
+  const levels = volumes.map((volume, i) => ({ price: low + step * (i + 0.5), volume }));
+
+  // Grow the value area outward from the busiest bin, always taking the heavier neighbour.
+  const poc = volumes.indexOf(Math.max(...volumes));
+  const target = volumes.reduce((s, v) => s + v, 0) * VALUE_AREA_SHARE;
+  let lo = poc;
+  let hi = poc;
+  let covered = volumes[poc];
+  while (covered < target && (lo > 0 || hi < bins - 1)) {
+    const below = lo > 0 ? volumes[lo - 1] : -1;
+    const above = hi < bins - 1 ? volumes[hi + 1] : -1;
+    if (above >= below) covered += volumes[++hi];
+    else covered += volumes[--lo];
+  }
+
+  return {
+    levels,
+    pointOfControl: levels[poc].price,
+    valueAreaHigh: low + step * (hi + 1),
+    valueAreaLow: low + step * lo,
+  };
+}
+
+function crossState(fast: (number | null)[], slow: (number | null)[]): CrossState | null {
+  const n = fast.length - 1;
+  const f = fast[n];
+  const s = slow[n];
+  if (f == null || s == null) return null;
+  const state: Cross = f >= s ? "BULLISH" : "BEARISH";
+  let barsSinceCross: number | null = null;
+  for (let i = n - 1; i >= 0; i--) {
+    const pf = fast[i];
+    const ps = slow[i];
+    if (pf == null || ps == null) break;
+    if ((pf >= ps ? "BULLISH" : "BEARISH") !== state) {
+      barsSinceCross = n - i - 1;
+      break;
+    }
+  }
+  return { fast: f, slow: s, state, barsSinceCross };
+}
+
+// Keeps prompts compact without losing precision on low-priced symbols.
+function round(value: number) {
+  return Number(value.toPrecision(6));
+}
+
+export function computeIndicatorSeries(candles: Candle[]): IndicatorPoint[] {
+  const closes = candles.map(c => c.close);
+  const emaFast = ema(closes, EMA_FAST);
+  const emaSlow = ema(closes, EMA_SLOW);
+  const smaFast = sma(closes, SMA_FAST);
+  const smaSlow = sma(closes, SMA_SLOW);
+  const bands = bollinger(closes);
+  const vwapSeries = vwap(candles);
+  const rsiSeries = rsi(closes);
+  const macdSeries = macd(closes);
+  const atrSeries = atr(candles);
+
+  return candles.map((_, i) => ({
+    emaFast: i >= EMA_FAST - 1 ? emaFast[i] : null,
+    emaSlow: i >= EMA_SLOW - 1 ? emaSlow[i] : null,
+    smaFast: smaFast[i],
+    smaSlow: smaSlow[i],
+    bbUpper: bands[i]?.upper ?? null,
+    bbMiddle: bands[i]?.middle ?? null,
+    bbLower: bands[i]?.lower ?? null,
+    vwap: vwapSeries[i],
+    rsi: rsiSeries[i],
+    macd: macdSeries[i]?.macd ?? null,
+    macdSignal: macdSeries[i]?.signal ?? null,
+    macdHistogram: macdSeries[i]?.histogram ?? null,
+    atr: atrSeries[i],
+  }));
+}
+
+export function computeIndicators(candles: Candle[], interval: KlineInterval): IndicatorSnapshot {
+  const series = computeIndicatorSeries(candles);
+  const last = series[series.length - 1];
+  const close = candles[candles.length - 1]?.close;
+  const profile = volumeProfile(candles);
+
+  const roundCross = (cross: CrossState | null) => cross && { ...cross, fast: round(cross.fast), slow: round(cross.slow) };
+
+  return {
+    interval,
+    candles: candles.length,
+    rsi: last?.rsi != null ? round(last.rsi) : null,
+    macd: last?.macd != null && last.macdSignal != null && last.macdHistogram != null
+      ? { macd: round(last.macd), signal: round(last.macdSignal), histogram: round(last.macdHistogram) }
+      : null,
+    emaCross: roundCross(crossState(series.map(p => p.emaFast), series.map(p => p.emaSlow))),
+    smaCross: roundCross(crossState(series.map(p => p.smaFast), series.map(p => p.smaSlow))),
+    bollinger: last?.bbUpper != null && last.bbMiddle != null && last.bbLower != null
+      ? {
+          upper: round(last.bbUpper),
+          middle: round(last.bbMiddle),
+          lower: round(last.bbLower),
+          percentB: round(last.bbUpper > last.bbLower ? (close - last.bbLower) / (last.bbUpper - last.bbLower) : 0.5),
+        }
+      : null,
+    atr: last?.atr != null ? round(last.atr) : null,
+    vwap: last?.vwap != null ? round(last.vwap) : null,
+    volumeProfile: profile && {
+      levels: profile.levels.map(l => ({ price: round(l.price), volume: round(l.volume) })),
+      pointOfControl: round(profile.pointOfControl),
+      valueAreaHigh: round(profile.valueAreaHigh),
+      valueAreaLow: round(profile.valueAreaLow),
+    },
+  };
+}
@@ -0,0 +1,207 @@
+import type { MarketData, PositionSide } from "@shared/schema";
+import type { BracketedTradeAction } from "@/lib/brackets";
+import type { TokenUsage } from "@/lib/analyze";
+import type { ConsensusDecision } from "@/lib/consensus";
+import type { IndicatorSnapshot } from "@/lib/indicators";
+import type { OrderBookSnapshot } from "@/lib/order-book";
+import type { ProviderId } from "@/lib/providers";
+import type { RenderedPrompt } from "@/lib/strategy";
+import type { SignalOutcomes } from "@/lib/scoring";
+import { loadRecords, saveRecords, clearRecords } from "@/lib/storage";
+
+// Raw responses and snapshots are large; only this many of the newest entries are kept in memory.
+// The local backend keeps fewer; see RECORD_LIMITS in storage-local.
+export const JOURNAL_LIMIT = 500;
+
+// USD list prices per million tokens for the models the server calls. Custom endpoints are assumed to be local and free.
+export const PROVIDER_PRICING: Record<ProviderId, { input: number; output: number }> = {
+  gemini: { input: 0.3, output: 2.5 },
+  openai: { input: 2.5, output: 10 },
+  deepseek: { input: 0.27, output: 1.1 },
+  custom: { input: 0, output: 0 },
+};
+
+// One provider call within a cycle; a consensus cycle has one per vote.
+export type JournalCall = {
+  provider: ProviderId;
+  decision: BracketedTradeAction | null;
+  error: string | null;
+  rawOutput: string | null;
+  attempts: number | null;
+  latencyMs: number | null;
+  usage: TokenUsage | null;
+  costUsd: number | null;
+};
+
+export type JournalSource = "MANUAL" | "BOT";
+
+export type JournalEntry = {
+  id: string;
+  timestamp: string;
+  source: JournalSource;
+  symbol: string;
+  // The price history is left out; the indicator snapshot already summarises the candles the model saw.
+  marketData: Omit<MarketData, "history"> | null;
+  indicators?: IndicatorSnapshot;
+  orderBook?: OrderBookSnapshot;
+  positionSide: PositionSide | null;
+  prompt?: RenderedPrompt;
+  calls: JournalCall[];
+  // The action the cycle settled on, after consensus; null when no valid answer came back.
+  decision: BracketedTradeAction | null;
+  error: string | null;
+  latencyMs: number | null;
+  usage: TokenUsage | null;
+  costUsd: number | null;
+  // Filled in by signal scoring once each horizon has elapsed.
+  outcomes?: SignalOutcomes;
+};
+
+// One scheduler cycle as the server traced it. Statuses carry the newest few, so cycles that ran while no tab was open still reach the journal.
+export type BotCycleTrace = Pick<
+  JournalEntry, "timestamp" | "marketData" | "indicators" | "orderBook" | "positionSide" | "prompt" | "calls" | "decision" | "error" | "latencyMs"
+>;
+
+export type JournalContext = Pick<JournalEntry, "source" | "symbol" | "indicators" | "orderBook" | "positionSide" | "prompt"> & {
+  marketData: MarketData | null;
+};
+
+export async function loadJournal(): Promise<JournalEntry[]> {
+  try {
+    return await loadRecords<JournalEntry>("decisions", JOURNAL_LIMIT);
+  } catch (e) {
+    console.error("Failed to load decision journal", e);
+    return [];
+  }
+}
+
+// Writes only the given entries; the backend upserts them by id.
+export async function saveJournalEntries(entries: JournalEntry[]) {
+  await saveRecords("decisions", entries);
+}
+
+export async function clearJournalEntries() {
+  await clearRecords("decisions");
+}
+
+export function estimateCost(provider: ProviderId, usage: TokenUsage | null): number | null {
+  if (!usage) return null;
+  const price = PROVIDER_PRICING[provider];
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+function sumNullable(values: (number | null)[]): number | null {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0 ? known.reduce((s, v) => s + v, 0) : null;
+}
+
+function stripMeta({ action, confidence, reason, stopLoss, takeProfit }: ConsensusDecision): BracketedTradeAction {
+  return { action, confidence, reason, stopLoss, takeProfit };
+}
+
+function callsOf(decision: ConsensusDecision): JournalCall[] {
+  if (decision.consensus) {
+    return decision.consensus.votes.map(vote => {
+      const trace = vote.decision?.trace;
+      const usage = trace?.usage ?? null;
+      return {
+        provider: vote.provider,
+        decision: vote.decision ? stripMeta(vote.decision) : null,
+        error: vote.error,
+        rawOutput: trace?.rawOutput ?? vote.rawOutput,
+        attempts: trace?.attempts ?? null,
+        latencyMs: vote.latencyMs,
+        usage,
+        costUsd: estimateCost(vote.provider, usage),
+      };
+    });
+  }
+  if (!decision.trace) return [];
+  const { provider, rawOutput, attempts, latencyMs, usage } = decision.trace;
+  return [{ provider, decision: stripMeta(decision), error: null, rawOutput, attempts, latencyMs, usage, costUsd: estimateCost(provider, usage) }];
+}
+
+function withoutHistory({ history: _history, ...snapshot }: MarketData): Omit<MarketData, "history"> {
+  return snapshot;
+}
+
+// A call that produced no usable decision; the server does not report usage for these.
+export function failedCall(provider: ProviderId, error: string, rawOutput: string | null, latencyMs: number | null): JournalCall {
+  return { provider, decision: null, error, rawOutput, attempts: null, latencyMs, usage: null, costUsd: null };
+}
+
+function totalUsage(calls: JournalCall[]): TokenUsage | null {
+  const promptTokens = sumNullable(calls.map(c => c.usage?.promptTokens ?? null));
+  const completionTokens = sumNullable(calls.map(c => c.usage?.completionTokens ?? null));
+  return promptTokens === null || completionTokens === null ? null : { promptTokens, completionTokens };
+}
+
+export function createJournalEntry(
+  context: JournalContext,
+  outcome: { decision: ConsensusDecision } | { error: string; calls: JournalCall[] },
+  latencyMs: number | null,
+  at = new Date(),
+): JournalEntry {
+  const calls = "decision" in outcome ? callsOf(outcome.decision) : outcome.calls;
+  return {
+    ...context,
+    marketData: context.marketData && withoutHistory(context.marketData),
+    id: `${at.getTime()}-${context.symbol}`,
+    timestamp: at.toISOString(),
+    calls,
+    decision: "decision" in outcome ? stripMeta(outcome.decision) : null,
+    error: "error" in outcome ? outcome.error : null,
+    latencyMs,
+    usage: totalUsage(calls),
+    costUsd: sumNullable(calls.map(c => c.costUsd)),
+  };
+}
+
+// The id is derived from the cycle time, so a cycle reported in several statuses maps to one entry.
+export function createBotJournalEntry(symbol: string, cycle: BotCycleTrace): JournalEntry {
+  const at = new Date(cycle.timestamp);
+  const calls = cycle.calls.map(c => ({ ...c, costUsd: c.costUsd ?? estimateCost(c.provider, c.usage) }));
+  return {
+    ...cycle,
+    id: `${at.getTime()}-${symbol}`,
+    source: "BOT",
+    symbol,
+    calls,
+    usage: totalUsage(calls),
+    costUsd: sumNullable(calls.map(c => c.costUsd)),
+  };
+}
+
+// Union by id, newest first; an entry in `incoming` replaces the existing one.
+export function combineJournalEntries(entries: JournalEntry[], incoming: JournalEntry[]): JournalEntry[] {
+  const ids = new Set(incoming.map(e => e.id));
+  return [...incoming, ...entries.filter(e => !ids.has(e.id))]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, JOURNAL_LIMIT);
+}
+
+export function appendJournalEntry(entries: JournalEntry[], entry: JournalEntry): JournalEntry[] {
+  return combineJournalEntries(entries, [entry]);
+}
+
+// Swaps in updated copies of existing entries, e.g. after scoring; unknown ids are ignored.
+export function mergeJournalEntries(entries: JournalEntry[], updated: JournalEntry[]): JournalEntry[] {
+  const byId = new Map(updated.map(e => [e.id, e]));
+  return entries.map(e => byId.get(e.id) ?? e);
+}
+
+// Case-insensitive match over everything a user is likely to search for, including the prompt and raw model text.
+export function matchesJournalQuery(entry: JournalEntry, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const haystack = [
+    entry.symbol,
+    entry.source,
+    entry.decision?.action,
+    entry.decision?.reason,
+    entry.error,
+    entry.prompt?.user,
+    ...entry.calls.flatMap(c => [c.provider, c.error, c.rawOutput]),
+  ];
+  return haystack.some(text => text?.toLowerCase().includes(needle));
+}
@@ -0,0 +1,134 @@
+import type { TradingLog } from "@shared/schema";
+import { getStorage } from "@/lib/storage";
+
+// RISK and GATE entries come from the client-side risk guard and signal gates; they are not part of the shared log schema.
+export type LogType = TradingLog["type"] | "RISK" | "GATE";
+
+export const LOG_TYPES: LogType[] = ["INFO", "SUCCESS", "TRADE", "RISK", "GATE", "ERROR"];
+
+export type LogLevel = "INFO" | "WARN" | "ERROR";
+
+export type LogContext = {
+  symbol?: string;
+  // Bots run one per symbol, so this is the symbol of the bot that produced the entry.
+  botId?: string;
+  // Structured or raw supporting data, e.g. the raw output of a rejected model answer.
+  payload?: unknown;
+};
+
+// `type` is the category; `level` is derived from it so the store can be filtered by severity too.
+export type DashboardLog = Omit<TradingLog, "type"> & {
+  type: LogType;
+  level: LogLevel;
+  symbol: string | null;
+  botId: string | null;
+  payload?: unknown;
+};
+
+export type LogQuery = {
+  page: number;
+  pageSize: number;
+  type: LogType | "ALL";
+  search: string;
+  // yyyy-mm-dd in local time, inclusive; empty means unbounded.
+  from: string;
+  to: string;
+};
+
+export type LogPage = {
+  logs: DashboardLog[];
+  total: number;
+};
+
+export const DEFAULT_LOG_QUERY: LogQuery = { page: 1, pageSize: 50, type: "ALL", search: "", from: "", to: "" };
+
+// Upper bound on rows pulled for an export.
+export const LOG_EXPORT_LIMIT = 10000;
+
+function levelOf(type: LogType): LogLevel {
+  if (type === "ERROR") return "ERROR";
+  if (type === "RISK" || type === "GATE") return "WARN";
+  return "INFO";
+}
+
+export function createLog(type: LogType, message: string, context: LogContext = {}, at = new Date()): DashboardLog {
+  return {
+    id: `${at.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: at.toISOString(),
+    type,
+    level: levelOf(type),
+    message,
+    symbol: context.symbol ?? null,
+    botId: context.botId ?? null,
+    payload: context.payload,
+  };
+}
+
+// Fire-and-forget: a failed write must never break the cycle that logged it. The entry stays in the session buffer.
+export async function writeLog(log: DashboardLog) {
+  try {
+    await getStorage().putRecords("logs", [log]);
+  } catch (e) {
+    console.error("Failed to persist log entry", e);
+  }
+}
+
+function dayBounds(query: Pick<LogQuery, "from" | "to">) {
+  return {
+    from: query.from ? new Date(`${query.from}T00:00:00`).toISOString() : "",
+    to: query.to ? new Date(`${query.to}T23:59:59.999`).toISOString() : "",
+  };
+}
+
+export function toLogSearchParams(query: LogQuery): URLSearchParams {
+  const { from, to } = dayBounds(query);
+  const params = new URLSearchParams({ page: String(query.page), pageSize: String(query.pageSize) });
+  if (query.type !== "ALL") params.set("type", query.type);
+  if (query.search.trim()) params.set("q", query.search.trim());
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  return params;
+}
+
+// Backends without their own log query are filtered here over the newest LOG_EXPORT_LIMIT entries.
+export async function fetchLogs(query: LogQuery): Promise<LogPage> {
+  const storage = getStorage();
+  if (storage.queryLogs) return await storage.queryLogs(query);
+  const matches = filterLogs(await storage.listRecords<DashboardLog>("logs", LOG_EXPORT_LIMIT), query);
+  const start = (query.page - 1) * query.pageSize;
+  return { logs: matches.slice(start, start + query.pageSize), total: matches.length };
+}
+
+export function formatPayload(payload: unknown): string {
+  return typeof payload === "string" ? payload : JSON.stringify(payload, null, 2);
+}
+
+// Mirrors the server's filtering, for backends without their own log query and for the session buffer.
+export function filterLogs(logs: DashboardLog[], query: LogQuery): DashboardLog[] {
+  const { from, to } = dayBounds(query);
+  const needle = query.search.trim().toLowerCase();
+  return logs.filter(log =>
+    (query.type === "ALL" || log.type === query.type)
+    && (!from || log.timestamp >= from)
+    && (!to || log.timestamp <= to)
+    && (!needle || [log.message, log.symbol, log.botId, log.payload === undefined ? null : formatPayload(log.payload)]
+      .some(text => text?.toLowerCase().includes(needle))));
+}
+
+function csvCell(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function logsToCsv(logs: DashboardLog[]): string {
+  const header = ["timestamp", "level", "type", "symbol", "botId", "message", "payload"];
+  const rows = logs.map(log => [
+    log.timestamp,
+    log.level,
+    log.type,
+    log.symbol ?? "",
+    log.botId ?? "",
+    log.message,
+    log.payload === undefined ? "" : formatPayload(log.payload),
+  ].map(csvCell).join(","));
+  return [header.join(","), ...rows].join("\n");
+}
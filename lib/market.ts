@@ -0,0 +1,75 @@
+import type { MarketData } from "@shared/schema";
+
+export type KlineInterval = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
+
+export const KLINE_INTERVALS: KlineInterval[] = ["1m", "5m", "15m", "1h", "4h", "1d"];
+
+// Candles per request for the chart and the indicator snapshot; both share one query cache entry.
+export const KLINE_LIMIT = 300;
+
+export const INTERVAL_MS: Record<KlineInterval, number> = {
+  "1m": 60_000,
+  "5m": 300_000,
+  "15m": 900_000,
+  "1h": 3_600_000,
+  "4h": 14_400_000,
+  "1d": 86_400_000,
+};
+
+export type Candle = {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+export type Ticker = {
+  symbol: string;
+  price: number;
+  change24h: number;
+};
+
+export async function fetchKlines(symbol: string, interval: KlineInterval, limit: number, endTime?: number): Promise<Candle[]> {
+  const params = new URLSearchParams({ symbol, interval, limit: String(limit) });
+  if (endTime) params.set("endTime", String(endTime));
+  const res = await fetch(`/api/market/klines?${params}`, { credentials: "include" });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return await res.json();
+}
+
+// Watchlist snapshot; a symbol whose ticker fails is left out rather than failing the batch.
+export async function fetchTickers(symbols: string[]): Promise<Ticker[]> {
+  const results = await Promise.allSettled(symbols.map(async symbol => {
+    const res = await fetch(`/api/market/ticker?symbol=${symbol}`, { credentials: "include" });
+    if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+    return (await res.json()) as Ticker;
+  }));
+  return results.flatMap(r => r.status === "fulfilled" ? [r.value] : []);
+}
+
+// Shapes a window of candles like a live ticker snapshot so replays hit the same analyze path.
+export function candlesToMarketData(symbol: string, candles: Candle[], interval: KlineInterval): MarketData {
+  const last = candles[candles.length - 1];
+  const dayAgo = last.time - INTERVAL_MS["1d"];
+  const dayWindow = candles.filter(c => c.time > dayAgo);
+  const dayOpen = dayWindow[0]?.open ?? last.open;
+  return {
+    symbol,
+    price: last.close,
+    change24h: dayOpen > 0 ? (last.close - dayOpen) / dayOpen * 100 : 0,
+    high24h: Math.max(...dayWindow.map(c => c.high)),
+    low24h: Math.min(...dayWindow.map(c => c.low)),
+    volume24h: dayWindow.reduce((sum, c) => sum + c.volume, 0),
+    history: candles.slice(-50).map(c => ({
+      time: new Date(c.time).toLocaleTimeString([], interval === "1d"
+        ? { month: "short", day: "numeric" }
+        : { hour: "2-digit", minute: "2-digit" }),
+      price: c.close,
+    })),
+  } as MarketData;
+}
@@ -0,0 +1,85 @@
+import type { DepthLevel, StreamDepth } from "@/hooks/use-market-stream";
+
+// Raw levels from the top of each side that count towards the imbalance; deeper orders are mostly resting liquidity.
+export const IMBALANCE_LEVELS = 20;
+
+export type BookLevel = {
+  price: number;
+  quantity: number;
+  // Quantity from the best price down to and including this level.
+  total: number;
+};
+
+export type AggregatedBook = {
+  bids: BookLevel[];
+  asks: BookLevel[];
+};
+
+export type OrderBookSnapshot = {
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  spread: number;
+  spreadPercent: number;
+  bidVolume: number;
+  askVolume: number;
+  // (bid - ask) / (bid + ask) over the top IMBALANCE_LEVELS; +1 is all bids, -1 all asks.
+  imbalance: number;
+};
+
+// Steps of 1 and 5 at four decades below the price, e.g. 0.1 to 500 for BTC and 0.000001 to 0.005 for DOGE.
+export function getGroupingOptions(price: number): number[] {
+  if (!(price > 0)) return [];
+  const magnitude = Math.floor(Math.log10(price));
+  return [-5, -4, -3, -2].flatMap(offset => {
+    const step = 10 ** (magnitude + offset);
+    return [step, step * 5].map(s => Number(s.toPrecision(1)));
+  });
+}
+
+// Bids round down and asks round up, so a grouped level never shows a better price than is actually on offer.
+function groupSide(levels: DepthLevel[], step: number, side: "bid" | "ask", rows: number): BookLevel[] {
+  const buckets = new Map<number, number>();
+  for (const [price, quantity] of levels) {
+    // The epsilon keeps prices that sit exactly on a step from being pushed into the next bucket by float error.
+    const bucket = side === "bid" ? Math.floor(price / step + 1e-9) : Math.ceil(price / step - 1e-9);
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + quantity);
+  }
+  const sorted = Array.from(buckets.entries()).sort(([a], [b]) => side === "bid" ? b - a : a - b).slice(0, rows);
+  let total = 0;
+  return sorted.map(([bucket, quantity]) => {
+    total += quantity;
+    return { price: Number((bucket * step).toPrecision(12)), quantity, total };
+  });
+}
+
+export function aggregateBook(depth: StreamDepth, step: number, rows: number): AggregatedBook {
+  return {
+    bids: groupSide(depth.bids, step, "bid", rows),
+    asks: groupSide(depth.asks, step, "ask", rows),
+  };
+}
+
+// Works on the raw levels, so the figures do not depend on the grouping shown. Null for a one-sided or empty book.
+export function summarizeBook(depth: StreamDepth): OrderBookSnapshot | null {
+  const bids = [...depth.bids].sort((a, b) => b[0] - a[0]).slice(0, IMBALANCE_LEVELS);
+  const asks = [...depth.asks].sort((a, b) => a[0] - b[0]).slice(0, IMBALANCE_LEVELS);
+  if (bids.length === 0 || asks.length === 0) return null;
+
+  const bestBid = bids[0][0];
+  const bestAsk = asks[0][0];
+  const mid = (bestBid + bestAsk) / 2;
+  const bidVolume = bids.reduce((sum, [, q]) => sum + q, 0);
+  const askVolume = asks.reduce((sum, [, q]) => sum + q, 0);
+  const volume = bidVolume + askVolume;
+  return {
+    bestBid,
+    bestAsk,
+    mid,
+    spread: bestAsk - bestBid,
+    spreadPercent: mid > 0 ? (bestAsk - bestBid) / mid * 100 : 0,
+    bidVolume,
+    askVolume,
+    imbalance: volume > 0 ? (bidVolume - askVolume) / volume : 0,
+  };
+}
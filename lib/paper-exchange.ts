@@ -0,0 +1,289 @@
+import type { MexcBalance, MexcTrade } from "@shared/schema";
+import type { BracketedPosition, BracketedTradeAction, Brackets } from "@/lib/brackets";
+import { computePositionSize } from "@/lib/sizing";
+import { readCachedDocument, loadDocument, saveDocument } from "@/lib/storage";
+
+const MAX_TRADE_HISTORY = 500;
+
+export type PaperConfig = {
+  feePercent: number;
+  slippagePercent: number;
+};
+
+export type PaperPosition = BracketedPosition & {
+  quantity: number;
+  margin: number;
+  // Already taken from the balance at open, and booked in the closing trade's pnl. Absent on positions saved by older builds.
+  entryFee?: number;
+  openedAt: number;
+};
+
+export type PaperTrade = MexcTrade & {
+  time: number;
+};
+
+// Virtual futures account used in Simulation mode. Balance excludes margin held by open positions.
+export type PaperAccount = {
+  startingBalance: number;
+  balance: number;
+  positions: PaperPosition[];
+  trades: PaperTrade[];
+};
+
+export type OpenOrder = {
+  symbol: string;
+  side: "LONG" | "SHORT";
+  quantity: number;
+  price: number;
+  leverage: number;
+  stopLoss?: number;
+  takeProfit?: number;
+};
+
+export type CloseReason = "SIGNAL" | "STOP_LOSS" | "TAKE_PROFIT" | "FLATTEN";
+
+export type PaperFill = {
+  account: PaperAccount;
+  fills: { side: "BUY" | "SELL"; price: number; quantity: number; pnl: number; reason?: CloseReason }[];
+  error?: string;
+};
+
+export type DecisionSizing = {
+  riskPercent: number;
+  leverage: number;
+};
+
+let fillCount = 0;
+
+function fillId() {
+  fillCount = (fillCount + 1) % Number.MAX_SAFE_INTEGER;
+  return `paper-${Date.now()}-${fillCount}`;
+}
+
+export function createPaperAccount(startingBalance: number): PaperAccount {
+  return { startingBalance, balance: startingBalance, positions: [], trades: [] };
+}
+
+export function loadPaperAccount(startingBalance: number): PaperAccount {
+  return readCachedDocument<PaperAccount>("paper-account") ?? createPaperAccount(startingBalance);
+}
+
+// The active storage backend's copy; null when that backend has none yet.
+export async function loadStoredPaperAccount(): Promise<PaperAccount | null> {
+  return await loadDocument<PaperAccount>("paper-account");
+}
+
+export function savePaperAccount(account: PaperAccount) {
+  saveDocument("paper-account", account);
+}
+
+// Buying fills above the quote and selling fills below it.
+function applySlippage(price: number, side: "BUY" | "SELL", config: PaperConfig) {
+  const slip = config.slippagePercent / 100;
+  return side === "BUY" ? price * (1 + slip) : price * (1 - slip);
+}
+
+function unrealizedPnl(position: PaperPosition, price: number) {
+  const direction = position.side === "LONG" ? 1 : -1;
+  return (price - position.entryPrice) * position.quantity * direction;
+}
+
+export function openPaperPosition(account: PaperAccount, order: OpenOrder, config: PaperConfig, at = Date.now()): PaperFill {
+  const side = order.side === "LONG" ? "BUY" : "SELL";
+  const fillPrice = applySlippage(order.price, side, config);
+  const notional = fillPrice * order.quantity;
+  const fee = notional * config.feePercent / 100;
+  const margin = notional / order.leverage;
+  if (margin + fee > account.balance) {
+    throw new Error(`Insufficient paper balance: need ${(margin + fee).toFixed(2)} USDT`);
+  }
+
+  const position: PaperPosition = {
+    id: fillId(),
+    symbol: order.symbol,
+    side: order.side,
+    leverage: order.leverage,
+    entryPrice: fillPrice,
+    currentPrice: fillPrice,
+    pnl: 0,
+    stopLoss: order.stopLoss,
+    takeProfit: order.takeProfit,
+    quantity: order.quantity,
+    margin,
+    entryFee: fee,
+    openedAt: at,
+  };
+  const trade: PaperTrade = {
+    id: fillId(),
+    symbol: order.symbol,
+    side,
+    price: fillPrice.toFixed(4),
+    quantity: order.quantity.toString(),
+    // Opening fills realize nothing; the fee comes out of the balance now and is booked when the position closes.
+    pnl: 0,
+    time: at,
+  };
+
+  return {
+    account: {
+      ...account,
+      balance: account.balance - margin - fee,
+      positions: [...account.positions, position],
+      trades: [trade, ...account.trades].slice(0, MAX_TRADE_HISTORY),
+    },
+    fills: [{ side, price: fillPrice, quantity: order.quantity, pnl: 0 }],
+  };
+}
+
+export function closePaperPositions(
+  account: PaperAccount,
+  shouldClose: (position: PaperPosition) => number | null,
+  reasonFor: (position: PaperPosition) => CloseReason,
+  config: PaperConfig,
+  at = Date.now(),
+): PaperFill {
+  let balance = account.balance;
+  const remaining: PaperPosition[] = [];
+  const trades: PaperTrade[] = [];
+  const fills: PaperFill["fills"] = [];
+
+  for (const position of account.positions) {
+    const exitQuote = shouldClose(position);
+    if (exitQuote === null) {
+      remaining.push(position);
+      continue;
+    }
+    const side = position.side === "LONG" ? "SELL" : "BUY";
+    const fillPrice = applySlippage(exitQuote, side, config);
+    const fee = fillPrice * position.quantity * config.feePercent / 100;
+    const entryFee = position.entryFee ?? 0;
+    // Round-trip pnl, so realized totals, loss streaks and win rates count both fees.
+    const pnl = unrealizedPnl(position, fillPrice) - fee - entryFee;
+    balance += position.margin + pnl + entryFee;
+    trades.push({
+      id: fillId(),
+      symbol: position.symbol,
+      side,
+      price: fillPrice.toFixed(4),
+      quantity: position.quantity.toString(),
+      pnl,
+      time: at,
+    });
+    fills.push({ side, price: fillPrice, quantity: position.quantity, pnl, reason: reasonFor(position) });
+  }
+
+  return {
+    account: {
+      ...account,
+      balance,
+      positions: remaining,
+      trades: [...trades.reverse(), ...account.trades].slice(0, MAX_TRADE_HISTORY),
+    },
+    fills,
+  };
+}
+
+function bracketHit(position: PaperPosition, price: number): CloseReason | null {
+  const isLong = position.side === "LONG";
+  if (position.stopLoss && (isLong ? price <= position.stopLoss : price >= position.stopLoss)) return "STOP_LOSS";
+  if (position.takeProfit && (isLong ? price >= position.takeProfit : price <= position.takeProfit)) return "TAKE_PROFIT";
+  return null;
+}
+
+// Where a crossed bracket fills: "price" at the mark itself, as a stop-market order would on a live tick;
+// "level" at the bracket, for a mark known to have moved there continuously from the previous one.
+export type BracketFill = "price" | "level";
+
+function bracketLevel(position: PaperPosition, reason: CloseReason): number {
+  return reason === "STOP_LOSS" ? position.stopLoss! : position.takeProfit!;
+}
+
+// Revalues open positions at the latest price and closes any whose stop-loss or take-profit was crossed.
+export function markPaperAccount(
+  account: PaperAccount,
+  symbol: string,
+  price: number,
+  config: PaperConfig,
+  at = Date.now(),
+  bracketFill: BracketFill = "price",
+): PaperFill {
+  const marked: PaperAccount = {
+    ...account,
+    positions: account.positions.map(p => p.symbol === symbol
+      ? { ...p, currentPrice: price, pnl: unrealizedPnl(p, price) }
+      : p),
+  };
+  return closePaperPositions(
+    marked,
+    p => {
+      const reason = p.symbol === symbol ? bracketHit(p, price) : null;
+      if (!reason) return null;
+      return bracketFill === "level" ? bracketLevel(p, reason) : price;
+    },
+    p => bracketHit(p, price)!,
+    config,
+    at,
+  );
+}
+
+// Flips or closes positions on the symbol to match the decision, then opens a bracketed position
+// sized from the free paper balance.
+export function applyPaperDecision(
+  account: PaperAccount,
+  symbol: string,
+  decision: BracketedTradeAction,
+  brackets: Brackets | null,
+  price: number,
+  sizing: DecisionSizing,
+  config: PaperConfig,
+  at = Date.now(),
+): PaperFill {
+  if (decision.action === "WAIT") return { account, fills: [] };
+
+  const closed = closePaperPositions(
+    account,
+    p => p.symbol === symbol && p.side !== decision.action ? price : null,
+    () => "SIGNAL",
+    config,
+    at,
+  );
+  const side = decision.action;
+  if (!brackets || (side !== "LONG" && side !== "SHORT")) return closed;
+  if (closed.account.positions.some(p => p.symbol === symbol && p.side === side)) return closed;
+
+  const size = computePositionSize({
+    balance: closed.account.balance,
+    riskPercent: sizing.riskPercent,
+    leverage: sizing.leverage,
+    entryPrice: price,
+    stopDistancePercent: brackets.stopDistancePercent,
+    feePercent: config.feePercent,
+    slippagePercent: config.slippagePercent,
+  });
+  if (!size) return { ...closed, error: "paper balance exhausted" };
+
+  try {
+    const opened = openPaperPosition(closed.account, {
+      symbol,
+      side,
+      quantity: size.quantity,
+      price,
+      leverage: sizing.leverage,
+      stopLoss: brackets.stopLoss,
+      takeProfit: brackets.takeProfit,
+    }, config, at);
+    return { account: opened.account, fills: [...closed.fills, ...opened.fills] };
+  } catch (err) {
+    return { ...closed, error: err instanceof Error ? err.message : "order rejected" };
+  }
+}
+
+export function getPaperBalances(account: PaperAccount): MexcBalance[] {
+  const margin = account.positions.reduce((sum, p) => sum + p.margin, 0);
+  const unrealized = account.positions.reduce((sum, p) => sum + p.pnl, 0);
+  return [{
+    asset: "USDT",
+    total: (account.balance + margin + unrealized).toFixed(2),
+    available: account.balance.toFixed(2),
+  }];
+}
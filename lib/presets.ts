@@ -0,0 +1,99 @@
+import type { DashboardSettings, DeviceLocalField } from "@/lib/settings";
+import { keepDeviceLocal, isDeviceLocalField } from "@/lib/settings";
+import type { SecretField } from "@/lib/settings-transfer";
+import { isSecretField } from "@/lib/settings-transfer";
+
+export const PRESETS_STORAGE_KEY = "aegis_settings_presets";
+
+type NonPresetField = SecretField | DeviceLocalField;
+
+function isPresetField(field: string) {
+  return !isSecretField(field) && !isDeviceLocalField(field);
+}
+
+export type PresetSettings = Partial<Omit<DashboardSettings, NonPresetField>>;
+
+export type SettingsPreset = {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  settings: PresetSettings;
+};
+
+// Built-ins only set what their name promises; everything else keeps the current value.
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  {
+    id: "builtin-conservative-btc-3x",
+    name: "Conservative 3x",
+    builtIn: true,
+    settings: {
+      defaultLeverage: 3,
+      riskPercent: 1,
+      intervalMinutes: 15,
+      indicatorInterval: "1h",
+      bracketMode: "fixed",
+      stopDistancePercent: 1.5,
+      takeProfitPercent: 3,
+      maxDailyLoss: 50,
+      maxConsecutiveLosses: 2,
+      maxDrawdownPercent: 10,
+      minConfidence: 75,
+      confirmationSignals: 2,
+      cooldownMinutes: 30,
+      noFlipMinutes: 60,
+    },
+  },
+  {
+    id: "builtin-aggressive-eth-20x",
+    name: "Aggressive 20x",
+    builtIn: true,
+    settings: {
+      defaultLeverage: 20,
+      riskPercent: 3,
+      intervalMinutes: 1,
+      indicatorInterval: "5m",
+      bracketMode: "atr",
+      atrStopMultiplier: 1,
+      atrTakeProfitMultiplier: 2.5,
+      maxDailyLoss: 250,
+      maxConsecutiveLosses: 5,
+      maxDrawdownPercent: 25,
+      minConfidence: 55,
+      confirmationSignals: 1,
+      cooldownMinutes: 0,
+      noFlipMinutes: 5,
+    },
+  },
+];
+
+export function loadUserPresets(): SettingsPreset[] {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load settings presets", e);
+  }
+  return [];
+}
+
+export function saveUserPresets(presets: SettingsPreset[]) {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+}
+
+// Captures every preset field of the current settings, so applying it later restores them exactly.
+export function createPreset(name: string, settings: DashboardSettings): SettingsPreset {
+  const captured = Object.fromEntries(
+    Object.entries(settings).filter(([key]) => isPresetField(key))
+  ) as PresetSettings;
+  return { id: `preset-${Date.now()}`, name, builtIn: false, settings: captured };
+}
+
+// Presets saved by older builds may still hold a symbol or watchlist; those keep this device's values.
+export function applyPreset(settings: DashboardSettings, preset: SettingsPreset): DashboardSettings {
+  return keepDeviceLocal({ ...settings, ...preset.settings }, settings);
+}
+
+export function isPresetActive(settings: DashboardSettings, preset: SettingsPreset): boolean {
+  return Object.entries(preset.settings).filter(([key]) => isPresetField(key)).every(([key, value]) =>
+    JSON.stringify(settings[key as keyof DashboardSettings]) === JSON.stringify(value));
+}
@@ -0,0 +1,41 @@
+import type { AIProvider } from "@shared/schema";
+import type { DashboardSettings } from "@/lib/settings";
+
+// The shared schema only knows the hosted vendors; "custom" is any OpenAI-compatible server
+// (llama.cpp, Ollama, vLLM) reached through the base URL in settings.
+export type ProviderId = AIProvider | "custom";
+
+export const AI_PROVIDERS: ProviderId[] = ["gemini", "openai", "deepseek", "custom"];
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: "Gemini Pro",
+  openai: "OpenAI GPT-4",
+  deepseek: "DeepSeek V3",
+  custom: "Custom (OpenAI-compatible)",
+};
+
+export type CustomProviderConfig = {
+  baseUrl: string;
+  model: string;
+};
+
+// Everything /api/ai/analyze needs to reach one provider.
+export type ProviderTarget = {
+  aiProvider: ProviderId;
+  credentialId?: string;
+  custom?: CustomProviderConfig;
+};
+
+export function getProviderTarget(settings: DashboardSettings, provider: ProviderId = settings.aiProvider): ProviderTarget {
+  return {
+    aiProvider: provider,
+    credentialId: settings.credentialIds[provider],
+    custom: provider === "custom" ? settings.customProvider : undefined,
+  };
+}
+
+// A custom server may run without a key, so it only needs an endpoint and a model.
+export function isProviderConfigured(settings: DashboardSettings, provider: ProviderId): boolean {
+  if (provider === "custom") return !!settings.customProvider.baseUrl && !!settings.customProvider.model;
+  return !!settings.credentialIds[provider];
+}
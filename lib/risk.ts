@@ -0,0 +1,137 @@
+import type { MexcBalance, MexcTrade, Position } from "@shared/schema";
+
+const HALT_STORAGE_KEY = "aegis_risk_halt";
+const PEAK_STORAGE_KEY = "aegis_risk_peak_equity";
+const RESET_STORAGE_KEY = "aegis_risk_reset_at";
+
+export type RiskLimits = {
+  // A limit of 0 disables that check.
+  maxDailyLoss: number;
+  maxConsecutiveLosses: number;
+  maxDrawdownPercent: number;
+};
+
+export type RiskSnapshot = {
+  // Realized PnL and the loss streak only count trades closed since the later of midnight and the last manual reset.
+  realizedToday: number;
+  unrealized: number;
+  dailyPnl: number;
+  consecutiveLosses: number;
+  equity: number;
+  peakEquity: number;
+  drawdownPercent: number;
+};
+
+// Paper and live equity are unrelated, so each keeps its own peak.
+export type RiskAccount = "live" | "paper";
+
+export type HaltReason = "DAILY_LOSS" | "CONSECUTIVE_LOSSES" | "MAX_DRAWDOWN" | "MANUAL";
+
+export type HaltState = {
+  reason: HaltReason;
+  message: string;
+  haltedAt: string;
+};
+
+type TimedTrade = MexcTrade & { time?: number | string };
+
+function tradeTime(trade: TimedTrade): number | null {
+  if (trade.time === undefined) return null;
+  const ms = typeof trade.time === "number" ? trade.time : Date.parse(trade.time);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+export function getEquity(futuresBalances: MexcBalance[]): number {
+  const quote = futuresBalances.find(b => b.asset === "USDT");
+  const total = Number(quote?.total ?? 0);
+  return Number.isFinite(total) ? total : 0;
+}
+
+export function computeRiskSnapshot(
+  trades: MexcTrade[],
+  positions: Position[],
+  equity: number,
+  previousPeak: number,
+  resetAt: number | null = null,
+  now = new Date(),
+): RiskSnapshot {
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  // A reset starts a fresh window; otherwise the trades that caused the halt would trip it again straight away.
+  const windowStart = Math.max(startOfDay, resetAt ?? 0);
+  // Trades without a timestamp cannot be placed in a day, so they are counted as today's unless a reset came after midnight.
+  const closedTrades = (trades as TimedTrade[])
+    .filter(t => t.pnl !== 0 && (tradeTime(t) ?? startOfDay) >= windowStart);
+  const realizedToday = closedTrades.reduce((sum, t) => sum + t.pnl, 0);
+  const unrealized = positions.reduce((sum, p) => sum + p.pnl, 0);
+
+  const newestFirst = [...closedTrades].sort((a, b) => (tradeTime(b) ?? 0) - (tradeTime(a) ?? 0));
+  let consecutiveLosses = 0;
+  for (const trade of newestFirst) {
+    if (trade.pnl >= 0) break;
+    consecutiveLosses++;
+  }
+
+  const peakEquity = Math.max(previousPeak, equity);
+  return {
+    realizedToday,
+    unrealized,
+    dailyPnl: realizedToday + unrealized,
+    consecutiveLosses,
+    equity,
+    peakEquity,
+    drawdownPercent: peakEquity > 0 ? (peakEquity - equity) / peakEquity * 100 : 0,
+  };
+}
+
+export function checkRiskLimits(snapshot: RiskSnapshot, limits: RiskLimits): Omit<HaltState, "haltedAt"> | null {
+  if (limits.maxDailyLoss > 0 && snapshot.dailyPnl <= -limits.maxDailyLoss) {
+    return {
+      reason: "DAILY_LOSS",
+      message: `Daily loss ${snapshot.dailyPnl.toFixed(2)} USDT exceeds limit of ${limits.maxDailyLoss} USDT`,
+    };
+  }
+  if (limits.maxConsecutiveLosses > 0 && snapshot.consecutiveLosses >= limits.maxConsecutiveLosses) {
+    return {
+      reason: "CONSECUTIVE_LOSSES",
+      message: `${snapshot.consecutiveLosses} consecutive losing trades (limit ${limits.maxConsecutiveLosses})`,
+    };
+  }
+  if (limits.maxDrawdownPercent > 0 && snapshot.drawdownPercent >= limits.maxDrawdownPercent) {
+    return {
+      reason: "MAX_DRAWDOWN",
+      message: `Drawdown ${snapshot.drawdownPercent.toFixed(2)}% from peak exceeds limit of ${limits.maxDrawdownPercent}%`,
+    };
+  }
+  return null;
+}
+
+export function loadHaltState(): HaltState | null {
+  try {
+    const saved = localStorage.getItem(HALT_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load risk halt state", e);
+  }
+  return null;
+}
+
+export function saveHaltState(state: HaltState | null) {
+  if (state) localStorage.setItem(HALT_STORAGE_KEY, JSON.stringify(state));
+  else localStorage.removeItem(HALT_STORAGE_KEY);
+}
+
+export function loadPeakEquity(account: RiskAccount): number {
+  return Number(localStorage.getItem(`${PEAK_STORAGE_KEY}_${account}`)) || 0;
+}
+
+export function savePeakEquity(account: RiskAccount, peak: number) {
+  localStorage.setItem(`${PEAK_STORAGE_KEY}_${account}`, String(peak));
+}
+
+export function loadRiskResetAt(): number | null {
+  return Number(localStorage.getItem(RESET_STORAGE_KEY)) || null;
+}
+
+export function saveRiskResetAt(at: number) {
+  localStorage.setItem(RESET_STORAGE_KEY, String(at));
+}
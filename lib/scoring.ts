@@ -0,0 +1,193 @@
+import type { JournalEntry } from "@/lib/journal";
+import type { ProviderId } from "@/lib/providers";
+import { fetchKlines, INTERVAL_MS } from "@/lib/market";
+import type { KlineInterval } from "@/lib/market";
+
+export type ScoringHorizon = Extract<KlineInterval, "5m" | "15m" | "1h">;
+
+export const SCORING_HORIZONS: ScoringHorizon[] = ["5m", "15m", "1h"];
+
+export type SignalOutcome = {
+  entryPrice: number;
+  exitPrice: number;
+  // Signed in the direction of the call: positive means the market moved the way the model said.
+  movePercent: number;
+  isHit: boolean;
+};
+
+// null marks a horizon that could not be priced (e.g. a gap in the candles) so it is not retried forever.
+export type SignalOutcomes = Partial<Record<ScoringHorizon, SignalOutcome | null>>;
+
+// Who made a cycle's final call. Bot entries without call traces do not say which model answered, so they are grouped on their own.
+export type ScoreSource = ProviderId | "consensus" | "bot";
+
+export type ScoreBucket = {
+  label: string;
+  count: number;
+  hits: number;
+  hitRate: number;
+  avgMovePercent: number;
+};
+
+export type CalibrationPoint = {
+  // Mean stated confidence of the calls in the bucket, 0-100.
+  confidence: number;
+  hitRate: number;
+  count: number;
+};
+
+const CANDLE_MS = INTERVAL_MS["1m"];
+const CONFIDENCE_STEP = 10;
+// Keeps one scoring pass from firing a burst of kline requests after a long time offline.
+const MAX_ENTRIES_PER_PASS = 10;
+
+function isDirectional(action: string | undefined): action is "LONG" | "SHORT" {
+  return action === "LONG" || action === "SHORT";
+}
+
+// A cycle that settled on WAIT is still priced when one of its calls was directional, so that call can be scored.
+export function isScorable(entry: JournalEntry): boolean {
+  return isDirectional(entry.decision?.action) || entry.calls.some(c => isDirectional(c.decision?.action));
+}
+
+export function getDueHorizons(entry: JournalEntry, horizons: ScoringHorizon[], now = Date.now()): ScoringHorizon[] {
+  if (!isScorable(entry)) return [];
+  const at = new Date(entry.timestamp).getTime();
+  return horizons.filter(h => entry.outcomes?.[h] === undefined && at + INTERVAL_MS[h] + CANDLE_MS <= now);
+}
+
+export function getScoreSource(entry: JournalEntry): ScoreSource {
+  if (entry.calls.length > 1) return "consensus";
+  return entry.calls[0]?.provider ?? "bot";
+}
+
+// Prices come from 1m candles: the entry is the logged price (or the close of the decision's candle),
+// the exit is the close of the last candle that finished within the horizon.
+async function scoreEntry(entry: JournalEntry, due: ScoringHorizon[]): Promise<SignalOutcomes> {
+  const at = new Date(entry.timestamp).getTime();
+  const longest = Math.max(...due.map(h => INTERVAL_MS[h]));
+  const candles = await fetchKlines(entry.symbol, "1m", longest / CANDLE_MS + 2, at + longest);
+  const entryPrice = entry.marketData?.price ?? candles.filter(c => c.time <= at).pop()?.close;
+
+  const direction = entry.decision?.action === "SHORT" ? -1 : 1;
+  const outcomes: SignalOutcomes = {};
+  for (const horizon of due) {
+    const exit = candles.filter(c => c.time + CANDLE_MS <= at + INTERVAL_MS[horizon]).pop();
+    if (!entryPrice || !exit || exit.time + CANDLE_MS <= at) {
+      outcomes[horizon] = null;
+      continue;
+    }
+    const movePercent = (exit.close - entryPrice) / entryPrice * 100 * direction;
+    outcomes[horizon] = { entryPrice, exitPrice: exit.close, movePercent, isHit: movePercent > 0 };
+  }
+  return outcomes;
+}
+
+// Returns only the entries that were scored; request failures are retried on the next pass.
+export async function scorePendingEntries(entries: JournalEntry[], horizons: ScoringHorizon[], now = Date.now()): Promise<JournalEntry[]> {
+  const pending = entries
+    .map(entry => ({ entry, due: getDueHorizons(entry, horizons, now) }))
+    .filter(p => p.due.length > 0)
+    .slice(0, MAX_ENTRIES_PER_PASS);
+
+  const results = await Promise.allSettled(pending.map(async ({ entry, due }) => {
+    const outcomes = await scoreEntry(entry, due);
+    return { ...entry, outcomes: { ...entry.outcomes, ...outcomes } };
+  }));
+  return results.flatMap(r => r.status === "fulfilled" ? [r.value] : []);
+}
+
+function summarize(label: string, outcomes: SignalOutcome[]): ScoreBucket {
+  const hits = outcomes.filter(o => o.isHit).length;
+  return {
+    label,
+    count: outcomes.length,
+    hits,
+    hitRate: outcomes.length > 0 ? hits / outcomes.length * 100 : 0,
+    avgMovePercent: outcomes.length > 0 ? outcomes.reduce((s, o) => s + o.movePercent, 0) / outcomes.length : 0,
+  };
+}
+
+// Outcomes are priced once per entry; this re-signs the move for a call that went the other way (or a WAIT cycle's raw move).
+function outcomeFor(outcome: SignalOutcome, action: "LONG" | "SHORT"): SignalOutcome {
+  const movePercent = (outcome.exitPrice - outcome.entryPrice) / outcome.entryPrice * 100 * (action === "SHORT" ? -1 : 1);
+  return { ...outcome, movePercent, isHit: movePercent > 0 };
+}
+
+function scored(entries: JournalEntry[], horizon: ScoringHorizon) {
+  return entries.flatMap(entry => {
+    const outcome = entry.outcomes?.[horizon];
+    const decision = entry.decision;
+    if (!outcome || !decision || !isDirectional(decision.action)) return [];
+    return [{ entry, confidence: decision.confidence, outcome: outcomeFor(outcome, decision.action) }];
+  });
+}
+
+// Every directional call on its own, so each consensus vote and traced bot call counts towards its provider.
+function scoredCalls(entries: JournalEntry[], horizon: ScoringHorizon) {
+  return entries.flatMap(entry => {
+    const outcome = entry.outcomes?.[horizon];
+    if (!outcome) return [];
+    return entry.calls.flatMap(call => {
+      const action = call.decision?.action;
+      return isDirectional(action) ? [{ provider: call.provider, outcome: outcomeFor(outcome, action) }] : [];
+    });
+  });
+}
+
+function confidenceBucket(confidence: number) {
+  // 100 joins the 90-100 bucket rather than sitting alone.
+  return Math.min(Math.floor(confidence / CONFIDENCE_STEP), 100 / CONFIDENCE_STEP - 1) * CONFIDENCE_STEP;
+}
+
+export function summarizeOverall(entries: JournalEntry[], horizon: ScoringHorizon): ScoreBucket {
+  return summarize("All", scored(entries, horizon).map(s => s.outcome));
+}
+
+export function summarizeByConfidence(entries: JournalEntry[], horizon: ScoringHorizon): ScoreBucket[] {
+  const groups = new Map<number, SignalOutcome[]>();
+  for (const s of scored(entries, horizon)) {
+    const bucket = confidenceBucket(s.confidence);
+    groups.set(bucket, [...(groups.get(bucket) ?? []), s.outcome]);
+  }
+  return Array.from(groups.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([bucket, outcomes]) => summarize(`${bucket}-${bucket + CONFIDENCE_STEP}%`, outcomes));
+}
+
+export function summarizeBySource(entries: JournalEntry[], horizon: ScoringHorizon): (ScoreBucket & { source: ScoreSource })[] {
+  const groups = new Map<ScoreSource, SignalOutcome[]>();
+  for (const s of scored(entries, horizon)) {
+    const source = getScoreSource(s.entry);
+    groups.set(source, [...(groups.get(source) ?? []), s.outcome]);
+  }
+  return Array.from(groups.entries())
+    .map(([source, outcomes]) => ({ ...summarize(source, outcomes), source }))
+    .sort((a, b) => b.count - a.count);
+}
+
+export function summarizeByProvider(entries: JournalEntry[], horizon: ScoringHorizon): (ScoreBucket & { provider: ProviderId })[] {
+  const groups = new Map<ProviderId, SignalOutcome[]>();
+  for (const s of scoredCalls(entries, horizon)) {
+    groups.set(s.provider, [...(groups.get(s.provider) ?? []), s.outcome]);
+  }
+  return Array.from(groups.entries())
+    .map(([provider, outcomes]) => ({ ...summarize(provider, outcomes), provider }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// A well-calibrated model sits on the diagonal: calls made at 80% confidence win 80% of the time.
+export function calibrationCurve(entries: JournalEntry[], horizon: ScoringHorizon): CalibrationPoint[] {
+  const groups = new Map<number, { confidence: number; isHit: boolean }[]>();
+  for (const s of scored(entries, horizon)) {
+    const bucket = confidenceBucket(s.confidence);
+    groups.set(bucket, [...(groups.get(bucket) ?? []), { confidence: s.confidence, isHit: s.outcome.isHit }]);
+  }
+  return Array.from(groups.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, calls]) => ({
+      confidence: calls.reduce((s, c) => s + c.confidence, 0) / calls.length,
+      hitRate: calls.filter(c => c.isHit).length / calls.length * 100,
+      count: calls.length,
+    }));
+}
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import type { DashboardSettings } from "@/lib/settings";
+import { defaultSettings } from "@/lib/settings";
+import { AI_PROVIDERS } from "@/lib/providers";
+import type { ProviderId } from "@/lib/providers";
+import { KLINE_INTERVALS } from "@/lib/market";
+import type { KlineInterval } from "@/lib/market";
+import { SCORING_HORIZONS } from "@/lib/scoring";
+import type { ScoringHorizon } from "@/lib/scoring";
+
+export const SETTINGS_VERSION = 11;
+
+// Blobs saved before versioning carry no version; the key they were found under supplies it.
+const UNVERSIONED_VERSION = 10;
+
+// Builds before v10 kept settings under their own key. Their layouts are not recorded anywhere, so they run the
+// same chain as v10 and anything the schema does not know is dropped and reported.
+const LEGACY_SETTINGS_KEYS = Array.from({ length: 9 }, (_, i) => ({ key: `aegis_ai_settings_v${i + 1}`, version: i + 1 }));
+
+export type StoredSettings = {
+  version: number;
+  settings: Partial<DashboardSettings>;
+};
+
+export type SettingsReport = {
+  source: string;
+  fromVersion: number;
+  toVersion: number;
+  // Descriptions of the migrations applied, oldest first.
+  migrations: string[];
+  // Missing from the stored copy and filled from the defaults.
+  defaulted: string[];
+  // Present but invalid; replaced by the default.
+  reset: string[];
+  // Not part of the current schema.
+  dropped: string[];
+};
+
+export type ParsedSettings = {
+  settings: DashboardSettings;
+  report: SettingsReport;
+};
+
+type SettingsBlob = Record<string, unknown>;
+
+type SettingsMigration = {
+  version: number;
+  description: string;
+  migrate: (blob: SettingsBlob) => SettingsBlob;
+};
+
+const providerSchema = z.enum(AI_PROVIDERS as [ProviderId, ...ProviderId[]]);
+const positive = z.number().finite().positive();
+const nonNegative = z.number().finite().min(0);
+const percent = z.number().finite().min(0).max(100);
+
+const symbolOverridesSchema = z.object({
+  defaultLeverage: positive.optional(),
+  intervalMinutes: positive.optional(),
+  riskPercent: positive.optional(),
+  aiProvider: providerSchema.optional(),
+  strategyProfileId: z.string().optional(),
+});
+
+// Each field is checked on its own, so one bad value resets that field rather than the whole blob.
+const settingsShape: { [K in keyof DashboardSettings]-?: z.ZodType<DashboardSettings[K]> } = {
+  aiProvider: providerSchema,
+  geminiApiKey: z.string(),
+  openaiApiKey: z.string(),
+  deepseekApiKey: z.string(),
+  mexcApiKey: z.string(),
+  mexcSecretKey: z.string(),
+  tradingSymbol: z.string().trim().min(1).toUpperCase(),
+  defaultLeverage: z.number().int().min(1).max(125),
+  riskPercent: z.number().finite().positive().max(100),
+  isAutoTrading: z.boolean(),
+  intervalMinutes: positive,
+  isLiveMode: z.boolean(),
+  supabaseUrl: z.string(),
+  supabaseAnonKey: z.string(),
+  credentialIds: z.record(z.string()),
+  customProvider: z.object({ baseUrl: z.string(), model: z.string() }),
+  aiMode: z.enum(["single", "consensus"]),
+  consensusRule: z.enum(["unanimous", "majority", "weighted"]),
+  strategyProfileId: z.string().min(1),
+  watchlist: z.array(z.object({ symbol: z.string().trim().min(1).toUpperCase(), overrides: symbolOverridesSchema })).min(1),
+  stopDistancePercent: positive,
+  bracketMode: z.enum(["fixed", "atr"]),
+  takeProfitPercent: positive,
+  atrStopMultiplier: positive,
+  atrTakeProfitMultiplier: positive,
+  maxDailyLoss: nonNegative,
+  maxConsecutiveLosses: nonNegative,
+  maxDrawdownPercent: percent,
+  paperStartingBalance: positive,
+  paperFeePercent: nonNegative,
+  paperSlippagePercent: nonNegative,
+  indicatorInterval: z.enum(KLINE_INTERVALS as [KlineInterval, ...KlineInterval[]]),
+  minConfidence: percent,
+  confirmationSignals: z.number().int().min(1),
+  cooldownMinutes: nonNegative,
+  noFlipMinutes: nonNegative,
+  scoringHorizons: z.array(z.enum(SCORING_HORIZONS as [ScoringHorizon, ...ScoringHorizon[]])),
+};
+
+export const settingsSchema = z.object(settingsShape);
+
+// Applied in order to any blob older than `version`; add a step here whenever the stored shape changes.
+const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+  {
+    version: 11,
+    description: "seeded the watchlist from the trading symbol and cleared the client-side auto-trading flag",
+    migrate: blob => ({
+      ...blob,
+      // Without this, blobs from before the watchlist get the default BTCUSDT entry next to their own symbol.
+      watchlist: blob.watchlist ?? (typeof blob.tradingSymbol === "string" ? [{ symbol: blob.tradingSymbol, overrides: {} }] : undefined),
+      // Bots run on the server and report their own state; a stale `true` here means nothing.
+      isAutoTrading: false,
+    }),
+  },
+];
+
+function isRecord(value: unknown): value is SettingsBlob {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function toStoredSettings(settings: Partial<DashboardSettings>): StoredSettings {
+  return { version: SETTINGS_VERSION, settings };
+}
+
+// Accepts a versioned envelope or a bare blob from an older build. Anything unreadable yields the defaults.
+export function parseStoredSettings(raw: unknown, source: string, unversioned = UNVERSIONED_VERSION): ParsedSettings {
+  const isEnvelope = isRecord(raw) && typeof raw.version === "number" && isRecord(raw.settings);
+  const fromVersion = isEnvelope ? raw.version as number : unversioned;
+  let blob: SettingsBlob = isEnvelope ? raw.settings as SettingsBlob : isRecord(raw) ? raw : {};
+
+  const migrations: string[] = [];
+  for (const migration of SETTINGS_MIGRATIONS) {
+    if (fromVersion >= migration.version) continue;
+    blob = migration.migrate(blob);
+    migrations.push(`v${migration.version}: ${migration.description}`);
+  }
+
+  const settings: SettingsBlob = { ...defaultSettings };
+  const defaulted: string[] = [];
+  const reset: string[] = [];
+  for (const [key, schema] of Object.entries(settingsShape)) {
+    if (blob[key] === undefined) {
+      defaulted.push(key);
+      continue;
+    }
+    const result = (schema as z.ZodTypeAny).safeParse(blob[key]);
+    if (result.success) settings[key] = result.data;
+    else reset.push(key);
+  }
+  const dropped = Object.keys(blob).filter(key => !(key in settingsShape));
+
+  return {
+    settings: settings as DashboardSettings,
+    report: { source, fromVersion, toVersion: SETTINGS_VERSION, migrations, defaulted, reset, dropped },
+  };
+}
+
+export function hasSettingsChanges(report: SettingsReport): boolean {
+  return report.fromVersion !== report.toVersion || report.defaulted.length > 0 || report.reset.length > 0 || report.dropped.length > 0;
+}
+
+export function describeSettingsReport(report: SettingsReport): string {
+  const parts = [
+    report.fromVersion === report.toVersion ? `Settings v${report.toVersion} loaded from ${report.source}`
+      : report.fromVersion > report.toVersion ? `Settings from a newer build (v${report.fromVersion}) read as v${report.toVersion} (${report.source})`
+      : `Settings upgraded from v${report.fromVersion} to v${report.toVersion} (${report.source})`,
+  ];
+  parts.push(...report.migrations);
+  if (report.defaulted.length > 0) parts.push(`${report.defaulted.length} field(s) filled with defaults`);
+  if (report.reset.length > 0) parts.push(`reset invalid: ${report.reset.join(", ")}`);
+  if (report.dropped.length > 0) parts.push(`dropped: ${report.dropped.join(", ")}`);
+  return parts.join("; ");
+}
+
+// The newest pre-v10 blob still in localStorage, if any.
+export function readLegacySettings(): { key: string; version: number; value: unknown } | null {
+  for (const { key, version } of [...LEGACY_SETTINGS_KEYS].reverse()) {
+    const saved = localStorage.getItem(key);
+    if (!saved) continue;
+    try {
+      return { key, version, value: JSON.parse(saved) };
+    } catch (e) {
+      console.error(`Failed to read legacy settings from ${key}`, e);
+    }
+  }
+  return null;
+}
+
+export function clearLegacySettings() {
+  LEGACY_SETTINGS_KEYS.forEach(({ key }) => localStorage.removeItem(key));
+}
@@ -0,0 +1,174 @@
+import type { DashboardSettings } from "@/lib/settings";
+import { defaultSettings, keepDeviceLocal, isDeviceLocalField } from "@/lib/settings";
+import { SETTINGS_VERSION, parseStoredSettings } from "@/lib/settings-schema";
+import type { SettingsReport } from "@/lib/settings-schema";
+
+export const SETTINGS_FILE_FORMAT = "aegis-settings";
+
+// Keys settings can still hold in plaintext. Vault-stored keys never leave the server, so they are never exported.
+export const SECRET_FIELDS = [
+  "mexcApiKey", "mexcSecretKey", "geminiApiKey", "openaiApiKey", "deepseekApiKey", "supabaseAnonKey",
+] as const;
+
+export type SecretField = typeof SECRET_FIELDS[number];
+
+type Secrets = Partial<Record<SecretField, string>>;
+
+export type SecretMode = "strip" | "encrypt";
+
+const PBKDF2_ITERATIONS = 310000;
+// The count comes from the file; a crafted one could otherwise stall the tab deriving the key.
+const MAX_PBKDF2_ITERATIONS = 2_000_000;
+
+export type EncryptedSecrets = {
+  algorithm: "AES-GCM";
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+};
+
+export type SettingsFile = {
+  format: typeof SETTINGS_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: Partial<DashboardSettings>;
+  secrets?: EncryptedSecrets;
+};
+
+export type SettingsImport = {
+  settings: DashboardSettings;
+  report: SettingsReport;
+  exportedAt: string | null;
+  // Secret fields taken from the file; every other secret keeps this device's value.
+  importedSecrets: SecretField[];
+  // The file has encrypted keys but no password was given.
+  hasLockedSecrets: boolean;
+};
+
+export type SettingsChange = {
+  field: keyof DashboardSettings;
+  from: unknown;
+  to: unknown;
+};
+
+export class SettingsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SettingsImportError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function isSecretField(field: string): field is SecretField {
+  return (SECRET_FIELDS as readonly string[]).includes(field);
+}
+
+function pickSecrets(settings: DashboardSettings): Secrets {
+  return Object.fromEntries(SECRET_FIELDS.filter(f => settings[f]).map(f => [f, settings[f]]));
+}
+
+function withoutSecrets(settings: DashboardSettings): Partial<DashboardSettings> {
+  return Object.fromEntries(Object.entries(settings).filter(([key]) => !isSecretField(key)));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveKey"]);
+  return await crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function encryptSecrets(secrets: Secrets, password: string): Promise<EncryptedSecrets> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(secrets)));
+  return {
+    algorithm: "AES-GCM",
+    kdf: "PBKDF2-SHA256",
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+// AES-GCM authenticates the ciphertext, so a wrong password fails here rather than yielding garbage.
+async function decryptSecrets(encrypted: EncryptedSecrets, password: string): Promise<Secrets> {
+  const { iterations } = encrypted;
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new SettingsImportError(`The encrypted keys use an unsupported iteration count (at most ${MAX_PBKDF2_ITERATIONS}).`);
+  }
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(password, fromBase64(encrypted.salt), iterations);
+    plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.ciphertext));
+  } catch {
+    throw new SettingsImportError("Wrong password, or the encrypted keys in this file are damaged.");
+  }
+  const parsed: unknown = JSON.parse(new TextDecoder().decode(plaintext));
+  if (!isRecord(parsed)) return {};
+  return Object.fromEntries(Object.entries(parsed).filter(([key, value]) => isSecretField(key) && typeof value === "string"));
+}
+
+export async function createSettingsFile(settings: DashboardSettings, mode: SecretMode, password = ""): Promise<SettingsFile> {
+  const file: SettingsFile = {
+    format: SETTINGS_FILE_FORMAT,
+    version: SETTINGS_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: withoutSecrets(settings),
+  };
+  const secrets = pickSecrets(settings);
+  if (mode === "strip" || Object.keys(secrets).length === 0) return file;
+  if (!password) throw new Error("A password is required to encrypt keys.");
+  return { ...file, secrets: await encryptSecrets(secrets, password) };
+}
+
+// Validates and migrates the file like any stored copy. Encrypted keys are only applied when a password is given.
+export async function readSettingsFile(text: string, current: DashboardSettings, password = ""): Promise<SettingsImport> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SettingsImportError("The file is not valid JSON.");
+  }
+  if (!isRecord(raw) || raw.format !== SETTINGS_FILE_FORMAT || typeof raw.version !== "number" || !isRecord(raw.settings)) {
+    throw new SettingsImportError("The file is not an Aegis settings export.");
+  }
+
+  const { settings, report } = parseStoredSettings({ version: raw.version, settings: raw.settings }, "import file");
+  const encrypted = isRecord(raw.secrets) ? raw.secrets as EncryptedSecrets : null;
+  const imported = encrypted && password ? await decryptSecrets(encrypted, password) : {};
+
+  return {
+    settings: keepDeviceLocal({ ...settings, ...pickSecrets(current), ...imported }, current),
+    // Secrets are never in the plain part of the file and device-local fields are not taken from it, so neither is worth reporting.
+    report: { ...report, defaulted: report.defaulted.filter(f => !isSecretField(f) && !isDeviceLocalField(f)) },
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : null,
+    importedSecrets: (Object.keys(imported) as SecretField[]).filter(f => !isDeviceLocalField(f)),
+    hasLockedSecrets: !!encrypted && !password,
+  };
+}
+
+export function diffSettings(current: DashboardSettings, next: DashboardSettings): SettingsChange[] {
+  return (Object.keys(defaultSettings) as (keyof DashboardSettings)[])
+    .filter(field => JSON.stringify(current[field]) !== JSON.stringify(next[field]))
+    .map(field => ({ field, from: current[field], to: next[field] }));
+}
@@ -0,0 +1,257 @@
+import type { AppSettings } from "@shared/schema";
+import type { BracketConfig, BracketMode } from "@/lib/brackets";
+import type { RiskLimits } from "@/lib/risk";
+import type { PaperConfig } from "@/lib/paper-exchange";
+import type { KlineInterval } from "@/lib/market";
+import type { ConsensusRule } from "@/lib/consensus";
+import type { ProviderId, CustomProviderConfig } from "@/lib/providers";
+import type { GateConfig } from "@/lib/gates";
+import type { ScoringHorizon } from "@/lib/scoring";
+import { readCachedDocument, loadDocument, saveDocument, getStorage } from "@/lib/storage";
+import { LOCAL_STORAGE_KEYS, writeLocalDocument } from "@/lib/storage-local";
+import {
+  parseStoredSettings, toStoredSettings, hasSettingsChanges, readLegacySettings, clearLegacySettings
+} from "@/lib/settings-schema";
+import type { ParsedSettings, SettingsReport } from "@/lib/settings-schema";
+
+// When the settings above were last saved; cloud sync compares it with the remote row's updated_at.
+export const UPDATED_AT_STORAGE_KEY = "aegis_settings_updated_at";
+
+export type CredentialKind = "mexc" | ProviderId;
+
+// Opaque vault IDs returned by /api/credentials. The raw keys never leave the server.
+export type CredentialRefs = Partial<Record<CredentialKind, string>>;
+
+// Per-symbol values that replace the global ones for that symbol's bot.
+export type SymbolOverrides = Partial<Pick<DashboardSettings, "defaultLeverage" | "intervalMinutes" | "riskPercent" | "aiProvider" | "strategyProfileId">>;
+
+export type WatchlistEntry = {
+  symbol: string;
+  overrides: SymbolOverrides;
+};
+
+export type AIMode = "single" | "consensus";
+
+export type DashboardSettings = Omit<AppSettings, "aiProvider"> & {
+  aiProvider: ProviderId;
+  credentialIds: CredentialRefs;
+  // Endpoint for the "custom" provider; its optional key lives in the vault like the others.
+  customProvider: CustomProviderConfig;
+  // In consensus mode every provider with a stored key is asked and `aiProvider` is ignored.
+  aiMode: AIMode;
+  consensusRule: ConsensusRule;
+  // Strategy profile whose latest version supplies the analysis prompt.
+  strategyProfileId: string;
+  watchlist: WatchlistEntry[];
+  stopDistancePercent: number;
+  bracketMode: BracketMode;
+  takeProfitPercent: number;
+  atrStopMultiplier: number;
+  atrTakeProfitMultiplier: number;
+  maxDailyLoss: number;
+  maxConsecutiveLosses: number;
+  maxDrawdownPercent: number;
+  paperStartingBalance: number;
+  paperFeePercent: number;
+  paperSlippagePercent: number;
+  // Candle interval the indicator snapshot sent to the model is computed on.
+  indicatorInterval: KlineInterval;
+  minConfidence: number;
+  confirmationSignals: number;
+  cooldownMinutes: number;
+  noFlipMinutes: number;
+  // Horizons after which journaled LONG/SHORT calls are scored against the market.
+  scoringHorizons: ScoringHorizon[];
+};
+
+export const defaultSettings: DashboardSettings = {
+  aiProvider: "gemini",
+  geminiApiKey: "",
+  openaiApiKey: "",
+  deepseekApiKey: "",
+  mexcApiKey: "",
+  mexcSecretKey: "",
+  tradingSymbol: "BTCUSDT",
+  defaultLeverage: 10,
+  riskPercent: 2,
+  isAutoTrading: false,
+  intervalMinutes: 1,
+  isLiveMode: false,
+  supabaseUrl: "",
+  supabaseAnonKey: "",
+  credentialIds: {},
+  customProvider: { baseUrl: "http://localhost:11434/v1", model: "" },
+  aiMode: "single",
+  consensusRule: "majority",
+  strategyProfileId: "default",
+  watchlist: [{ symbol: "BTCUSDT", overrides: {} }],
+  stopDistancePercent: 1.5,
+  bracketMode: "fixed",
+  takeProfitPercent: 3,
+  atrStopMultiplier: 1.5,
+  atrTakeProfitMultiplier: 3,
+  maxDailyLoss: 100,
+  maxConsecutiveLosses: 3,
+  maxDrawdownPercent: 15,
+  paperStartingBalance: 10000,
+  paperFeePercent: 0.06,
+  paperSlippagePercent: 0.02,
+  indicatorInterval: "15m",
+  minConfidence: 60,
+  confirmationSignals: 1,
+  cooldownMinutes: 0,
+  noFlipMinutes: 0,
+  scoringHorizons: ["5m", "15m", "1h"],
+};
+
+const PLAINTEXT_KEY_FIELDS = {
+  mexcApiKey: "",
+  mexcSecretKey: "",
+  geminiApiKey: "",
+  openaiApiKey: "",
+  deepseekApiKey: "",
+} as const;
+
+type PlaintextKeyField = keyof typeof PLAINTEXT_KEY_FIELDS;
+
+const LEGACY_KEY_FIELDS: Partial<Record<CredentialKind, PlaintextKeyField[]>> = {
+  mexc: ["mexcApiKey", "mexcSecretKey"],
+  gemini: ["geminiApiKey"],
+  openai: ["openaiApiKey"],
+  deepseek: ["deepseekApiKey"],
+};
+
+// Where this device trades, with which account, which AI endpoint it calls and what it syncs to. A cloud pull,
+// another storage backend, an imported file or a preset changes how the bot trades, never these: none of them can
+// switch this browser to live trading, point its custom provider at another machine's host or drop its watchlist.
+export const DEVICE_LOCAL_FIELDS = [
+  "supabaseUrl", "supabaseAnonKey", "credentialIds", "customProvider", "isLiveMode", "isAutoTrading", "tradingSymbol", "watchlist",
+] as const satisfies readonly (keyof DashboardSettings)[];
+
+export type DeviceLocalField = typeof DEVICE_LOCAL_FIELDS[number];
+
+export function isDeviceLocalField(field: string): field is DeviceLocalField {
+  return (DEVICE_LOCAL_FIELDS as readonly string[]).includes(field);
+}
+
+export function keepDeviceLocal(incoming: DashboardSettings, local: DashboardSettings): DashboardSettings {
+  return { ...incoming, ...Object.fromEntries(DEVICE_LOCAL_FIELDS.map(field => [field, local[field]])) };
+}
+
+// Shared by the global Risk % field and the per-symbol overrides.
+export const RISK_PERCENT_LIMITS = { min: 0.1, max: 100, step: 0.1 };
+
+export function getBracketConfig(settings: DashboardSettings): BracketConfig {
+  return {
+    mode: settings.bracketMode,
+    stopLossPercent: settings.stopDistancePercent,
+    takeProfitPercent: settings.takeProfitPercent,
+    atrStopMultiplier: settings.atrStopMultiplier,
+    atrTakeProfitMultiplier: settings.atrTakeProfitMultiplier,
+  };
+}
+
+export function getRiskLimits(settings: DashboardSettings): RiskLimits {
+  return {
+    maxDailyLoss: settings.maxDailyLoss,
+    maxConsecutiveLosses: settings.maxConsecutiveLosses,
+    maxDrawdownPercent: settings.maxDrawdownPercent,
+  };
+}
+
+export function getGateConfig(settings: DashboardSettings): GateConfig {
+  return {
+    minConfidence: settings.minConfidence,
+    confirmations: settings.confirmationSignals,
+    cooldownMinutes: settings.cooldownMinutes,
+    noFlipMinutes: settings.noFlipMinutes,
+    signalGapMinutes: settings.intervalMinutes * 2,
+  };
+}
+
+export function getPaperConfig(settings: DashboardSettings): PaperConfig {
+  return {
+    feePercent: settings.paperFeePercent,
+    slippagePercent: settings.paperSlippagePercent,
+  };
+}
+
+// `tradingSymbol` is the focused market; it is always part of the watchlist.
+export function getWatchlist(settings: DashboardSettings): WatchlistEntry[] {
+  if (settings.watchlist.some(e => e.symbol === settings.tradingSymbol)) return settings.watchlist;
+  return [{ symbol: settings.tradingSymbol, overrides: {} }, ...settings.watchlist];
+}
+
+export function getSymbolSettings(settings: DashboardSettings, symbol: string): DashboardSettings {
+  const entry = settings.watchlist.find(e => e.symbol === symbol);
+  return { ...settings, ...entry?.overrides, tradingSymbol: symbol };
+}
+
+function readLocalSettings(): ParsedSettings | null {
+  const saved = readCachedDocument<unknown>("settings");
+  if (saved) return parseStoredSettings(saved, LOCAL_STORAGE_KEYS.settings);
+  const legacy = readLegacySettings();
+  return legacy ? parseStoredSettings(legacy.value, legacy.key, legacy.version) : null;
+}
+
+export function loadSettings(): DashboardSettings {
+  return readLocalSettings()?.settings ?? defaultSettings;
+}
+
+// Run once at startup: rewrites an outdated local copy in the current format and returns what changed, or null.
+// Only the local copy is rewritten; it may still hold plaintext keys for the vault migration, which must not reach a shared backend.
+export function migrateStoredSettings(): SettingsReport | null {
+  const parsed = readLocalSettings();
+  if (!parsed || !hasSettingsChanges(parsed.report)) return null;
+  writeLocalDocument("settings", toStoredSettings(parsed.settings));
+  clearLegacySettings();
+  return parsed.report;
+}
+
+// Reads the active storage backend's copy; null when that backend has none yet.
+// Device-local fields stay as they are, as with Supabase sync.
+export async function loadStoredSettings(local: DashboardSettings): Promise<DashboardSettings | null> {
+  const saved = await loadDocument<unknown>("settings");
+  if (!saved) return null;
+  const { settings } = parseStoredSettings(saved, `${getStorage().backend} storage`);
+  return keepDeviceLocal(settings, local);
+}
+
+export function saveSettings(settings: DashboardSettings, updatedAt = new Date().toISOString()) {
+  saveDocument("settings", toStoredSettings(stripSecrets(settings)));
+  // Keys from older builds stay in this browser's copy until the vault has confirmed them; no other backend sees them.
+  if (Object.keys(getLegacySecrets(settings)).length > 0) writeLocalDocument("settings", toStoredSettings(settings));
+  localStorage.setItem(UPDATED_AT_STORAGE_KEY, updatedAt);
+}
+
+// Edits made in the form but not saved yet. Device-local fields are left out since nothing restored overwrites them.
+export function hasUnsavedChanges(settings: DashboardSettings): boolean {
+  const saved = loadSettings();
+  return (Object.keys(settings) as (keyof DashboardSettings)[]).some(key =>
+    !isDeviceLocalField(key) && JSON.stringify(settings[key]) !== JSON.stringify(saved[key]));
+}
+
+export function loadSettingsUpdatedAt(): string | null {
+  return localStorage.getItem(UPDATED_AT_STORAGE_KEY);
+}
+
+export function stripSecrets(settings: DashboardSettings): DashboardSettings {
+  return { ...settings, ...PLAINTEXT_KEY_FIELDS };
+}
+
+// Keys saved by builds that predate the vault, grouped by the credential they belong to.
+export function getLegacySecrets(settings: DashboardSettings): Partial<Record<CredentialKind, Record<string, string>>> {
+  const legacy: Partial<Record<CredentialKind, Record<string, string>>> = {};
+  if (settings.mexcApiKey && settings.mexcSecretKey) {
+    legacy.mexc = { apiKey: settings.mexcApiKey, secretKey: settings.mexcSecretKey };
+  }
+  if (settings.geminiApiKey) legacy.gemini = { apiKey: settings.geminiApiKey };
+  if (settings.openaiApiKey) legacy.openai = { apiKey: settings.openaiApiKey };
+  if (settings.deepseekApiKey) legacy.deepseek = { apiKey: settings.deepseekApiKey };
+  return legacy;
+}
+
+export function clearLegacySecrets(settings: DashboardSettings, kind: CredentialKind): DashboardSettings {
+  const cleared = Object.fromEntries((LEGACY_KEY_FIELDS[kind] ?? []).map(field => [field, ""]));
+  return { ...settings, ...cleared };
+}
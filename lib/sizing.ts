@@ -0,0 +1,71 @@
+import type { MexcBalance } from "@shared/schema";
+
+export type SizingInput = {
+  balance: number;
+  riskPercent: number;
+  leverage: number;
+  entryPrice: number;
+  stopDistancePercent: number;
+  // Per-side costs in percent of notional. They only matter for the cap: the capped order must still cover its fee.
+  feePercent?: number;
+  slippagePercent?: number;
+};
+
+export type PositionSize = {
+  quantity: number;
+  notional: number;
+  margin: number;
+  riskAmount: number;
+  // True when the risk-based size needed more margin than the balance holds and was scaled down.
+  isCapped: boolean;
+};
+
+const QUOTE_ASSET = "USDT";
+
+// For callers that do not model their costs, e.g. live orders: MEXC's futures taker fee plus some slippage.
+const DEFAULT_FEE_PERCENT = 0.06;
+const DEFAULT_SLIPPAGE_PERCENT = 0.05;
+
+// Keeps float error from pushing an exactly-fitting capped order a hair over the balance.
+const CAP_TOLERANCE = 1e-9;
+
+export function getAvailableMargin(futuresBalances: MexcBalance[]): number {
+  const quote = futuresBalances.find(b => b.asset === QUOTE_ASSET);
+  const available = Number(quote?.available ?? 0);
+  return Number.isFinite(available) ? available : 0;
+}
+
+// Sizes the order so that hitting the stop loses riskPercent of the balance,
+// then caps it at what the balance can margin at the given leverage after the opening fee and slippage.
+export function computePositionSize(input: SizingInput): PositionSize | null {
+  const {
+    balance, riskPercent, leverage, entryPrice, stopDistancePercent,
+    feePercent = DEFAULT_FEE_PERCENT, slippagePercent = DEFAULT_SLIPPAGE_PERCENT,
+  } = input;
+  if (balance <= 0 || entryPrice <= 0 || stopDistancePercent <= 0 || leverage <= 0) return null;
+
+  const riskAmount = balance * (riskPercent / 100);
+  const stopDistance = entryPrice * (stopDistancePercent / 100);
+  let quantity = riskAmount / stopDistance;
+
+  // Slippage is taken against the order either way, so the worse fill price bounds both sides.
+  const fillPrice = entryPrice * (1 + slippagePercent / 100);
+  const maxQuantity = balance * (1 - CAP_TOLERANCE) / (fillPrice * (1 / leverage + feePercent / 100));
+  const isCapped = quantity > maxQuantity;
+  if (isCapped) quantity = maxQuantity;
+
+  const notional = quantity * entryPrice;
+  return {
+    quantity,
+    notional,
+    margin: notional / leverage,
+    riskAmount: isCapped ? quantity * stopDistance : riskAmount,
+    isCapped,
+  };
+}
+
+export function formatQuantity(quantity: number): string {
+  if (quantity >= 100) return quantity.toFixed(1);
+  if (quantity >= 1) return quantity.toFixed(3);
+  return quantity.toPrecision(3);
+}
@@ -0,0 +1,89 @@
+import type { StorageAdapter, DocumentKey, RecordCollection, StoredRecord } from "@/lib/storage";
+
+const DB_NAME = "aegis";
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = "documents";
+const RECORD_STORES: RecordCollection[] = ["logs", "decisions"];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) db.createObjectStore(DOCUMENTS_STORE);
+      for (const collection of RECORD_STORES) {
+        if (db.objectStoreNames.contains(collection)) continue;
+        db.createObjectStore(collection, { keyPath: "id" }).createIndex("timestamp", "timestamp");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function createIndexedDbAdapter(): StorageAdapter {
+  return {
+    backend: "indexeddb",
+    async getDocument<T>(key: DocumentKey) {
+      const db = await openDatabase();
+      const value = await toPromise(db.transaction(DOCUMENTS_STORE).objectStore(DOCUMENTS_STORE).get(key));
+      return (value as T | undefined) ?? null;
+    },
+    async putDocument<T>(key: DocumentKey, value: T) {
+      const db = await openDatabase();
+      const tx = db.transaction(DOCUMENTS_STORE, "readwrite");
+      tx.objectStore(DOCUMENTS_STORE).put(value, key);
+      await completion(tx);
+    },
+    async listRecords<T extends StoredRecord>(collection: RecordCollection, limit: number) {
+      const db = await openDatabase();
+      const index = db.transaction(collection).objectStore(collection).index("timestamp");
+      // Walks the timestamp index backwards so only the newest `limit` records are read.
+      return await new Promise<T[]>((resolve, reject) => {
+        const records: T[] = [];
+        const request = index.openCursor(null, "prev");
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || records.length >= limit) return resolve(records);
+          records.push(cursor.value as T);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    },
+    async putRecords<T extends StoredRecord>(collection: RecordCollection, records: T[]) {
+      const db = await openDatabase();
+      const tx = db.transaction(collection, "readwrite");
+      const store = tx.objectStore(collection);
+      records.forEach(r => store.put(r));
+      await completion(tx);
+    },
+    async clearRecords(collection: RecordCollection) {
+      const db = await openDatabase();
+      const tx = db.transaction(collection, "readwrite");
+      tx.objectStore(collection).clear();
+      await completion(tx);
+    },
+  };
+}
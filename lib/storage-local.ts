@@ -0,0 +1,77 @@
+import type { StorageAdapter, DocumentKey, RecordCollection, StoredRecord } from "@/lib/storage";
+
+// Keys predate the adapter; keeping them means existing browsers carry their data over unchanged.
+export const LOCAL_STORAGE_KEYS: Record<DocumentKey | RecordCollection, string> = {
+  settings: "aegis_ai_settings_v10",
+  "paper-account": "aegis_paper_account",
+  decisions: "aegis_decision_journal",
+  logs: "aegis_activity_logs",
+};
+
+// localStorage holds ~5 MB per origin; raw model responses and prompts make journal entries the largest records.
+const RECORD_LIMITS: Record<RecordCollection, number> = {
+  logs: 1000,
+  decisions: 200,
+};
+
+export function readLocalDocument<T>(key: DocumentKey | RecordCollection): T | null {
+  try {
+    const saved = localStorage.getItem(LOCAL_STORAGE_KEYS[key]);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to load ${key} from localStorage`, e);
+  }
+  return null;
+}
+
+export function writeLocalDocument<T>(key: DocumentKey | RecordCollection, value: T) {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEYS[key], JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${key} to localStorage`, e);
+  }
+}
+
+// When the quota is full the oldest records are dropped until the rest fit, and the caller is told how many were lost.
+function writeLocalRecords<T>(collection: RecordCollection, records: T[]) {
+  let kept = records;
+  for (;;) {
+    try {
+      localStorage.setItem(LOCAL_STORAGE_KEYS[collection], JSON.stringify(kept));
+      break;
+    } catch (e) {
+      if (kept.length <= 1) throw e;
+      kept = kept.slice(0, Math.floor(kept.length / 2));
+    }
+  }
+  if (kept.length < records.length) {
+    throw new Error(`localStorage is full; dropped the oldest ${records.length - kept.length} ${collection} records`);
+  }
+}
+
+export function createLocalStorageAdapter(): StorageAdapter {
+  const readRecords = <T extends StoredRecord>(collection: RecordCollection) => readLocalDocument<T[]>(collection) ?? [];
+
+  return {
+    backend: "local",
+    async getDocument<T>(key: DocumentKey) {
+      return readLocalDocument<T>(key);
+    },
+    async putDocument<T>(key: DocumentKey, value: T) {
+      writeLocalDocument(key, value);
+    },
+    async listRecords<T extends StoredRecord>(collection: RecordCollection, limit: number) {
+      return readRecords<T>(collection).slice(0, limit);
+    },
+    async putRecords<T extends StoredRecord>(collection: RecordCollection, records: T[]) {
+      const ids = new Set(records.map(r => r.id));
+      const merged = [...records, ...readRecords<T>(collection).filter(r => !ids.has(r.id))]
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, RECORD_LIMITS[collection]);
+      writeLocalRecords(collection, merged);
+    },
+    async clearRecords(collection: RecordCollection) {
+      localStorage.removeItem(LOCAL_STORAGE_KEYS[collection]);
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type { StorageAdapter, DocumentKey, RecordCollection, StoredRecord } from "@/lib/storage";
+import { restRequest, SETTINGS_TABLE, RECORDS_TABLE } from "@/lib/supabase-sync";
+import type { SyncConfig } from "@/lib/supabase-sync";
+
+type RecordRow<T> = {
+  owner: string;
+  collection: RecordCollection;
+  id: string;
+  timestamp: string;
+  data: T;
+};
+
+// Documents share the settings table with per-user sync, under their own key prefix so the two never collide.
+function documentKey(owner: string, key: DocumentKey): string {
+  return `storage:${owner}:${key}`;
+}
+
+// Everything is scoped to `owner`, the signed-in username, so users sharing a database only see and clear their own data.
+export function createPostgrestAdapter(config: SyncConfig, owner: string): StorageAdapter {
+  const ownerFilter = `owner=eq.${encodeURIComponent(owner)}`;
+  return {
+    backend: "postgres",
+    async getDocument<T>(key: DocumentKey) {
+      const res = await restRequest(config, `${SETTINGS_TABLE}?key=eq.${encodeURIComponent(documentKey(owner, key))}&select=value`);
+      const rows: { value: string }[] = await res.json();
+      return rows[0] ? JSON.parse(rows[0].value) as T : null;
+    },
+    async putDocument<T>(key: DocumentKey, value: T) {
+      await restRequest(config, `${SETTINGS_TABLE}?on_conflict=key`, {
+        method: "POST",
+        headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+        body: JSON.stringify([{ key: documentKey(owner, key), value: JSON.stringify(value), updated_at: new Date().toISOString() }]),
+      });
+    },
+    async listRecords<T extends StoredRecord>(collection: RecordCollection, limit: number) {
+      const res = await restRequest(config, `${RECORDS_TABLE}?${ownerFilter}&collection=eq.${collection}&select=data&order=timestamp.desc&limit=${limit}`);
+      const rows: Pick<RecordRow<T>, "data">[] = await res.json();
+      return rows.map(r => r.data);
+    },
+    async putRecords<T extends StoredRecord>(collection: RecordCollection, records: T[]) {
+      if (records.length === 0) return;
+      const rows: RecordRow<T>[] = records.map(r => ({ owner, collection, id: r.id, timestamp: r.timestamp, data: r }));
+      await restRequest(config, `${RECORDS_TABLE}?on_conflict=owner,collection,id`, {
+        method: "POST",
+        headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+        body: JSON.stringify(rows),
+      });
+    },
+    async clearRecords(collection: RecordCollection) {
+      await restRequest(config, `${RECORDS_TABLE}?${ownerFilter}&collection=eq.${collection}`, { method: "DELETE" });
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { StorageAdapter, DocumentKey, RecordCollection, StoredRecord } from "@/lib/storage";
+import type { LogQuery, LogPage } from "@/lib/logs";
+import { toLogSearchParams } from "@/lib/logs";
+
+// The server keeps these in its SQLite database, scoped to the signed-in user. Logs use the same
+// table as /api/logs, so server-side filtering and paging apply.
+export function createServerAdapter(): StorageAdapter {
+  return {
+    backend: "sqlite",
+    async getDocument<T>(key: DocumentKey) {
+      try {
+        const res = await apiRequest("GET", `/api/storage/documents/${key}`);
+        return (await res.json()) as T;
+      } catch (err) {
+        if (err instanceof Error && err.message.startsWith("404")) return null;
+        throw err;
+      }
+    },
+    async putDocument<T>(key: DocumentKey, value: T) {
+      await apiRequest("PUT", `/api/storage/documents/${key}`, value);
+    },
+    async listRecords<T extends StoredRecord>(collection: RecordCollection, limit: number) {
+      const res = await apiRequest("GET", `/api/storage/records/${collection}?limit=${limit}`);
+      return (await res.json()) as T[];
+    },
+    async putRecords<T extends StoredRecord>(collection: RecordCollection, records: T[]) {
+      await apiRequest("POST", `/api/storage/records/${collection}`, records);
+    },
+    async clearRecords(collection: RecordCollection) {
+      await apiRequest("DELETE", `/api/storage/records/${collection}`);
+    },
+    async queryLogs(query: LogQuery): Promise<LogPage> {
+      const res = await apiRequest("GET", `/api/logs?${toLogSearchParams(query)}`);
+      return await res.json();
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import type { LogPage, LogQuery } from "@/lib/logs";
+import type { SyncConfig } from "@/lib/supabase-sync";
+import { createLocalStorageAdapter, readLocalDocument, writeLocalDocument } from "@/lib/storage-local";
+import { createIndexedDbAdapter } from "@/lib/storage-indexeddb";
+import { createServerAdapter } from "@/lib/storage-server";
+import { createPostgrestAdapter } from "@/lib/storage-postgrest";
+
+export type StorageBackend = "local" | "indexeddb" | "sqlite" | "postgres";
+
+// Single values, replaced whole on every save. The paper account carries the simulated trade records.
+export type DocumentKey = "settings" | "paper-account";
+
+// Append-mostly collections, listed newest first.
+export type RecordCollection = "logs" | "decisions";
+
+export type StoredRecord = {
+  id: string;
+  timestamp: string;
+};
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  getDocument<T>(key: DocumentKey): Promise<T | null>;
+  putDocument<T>(key: DocumentKey, value: T): Promise<void>;
+  listRecords<T extends StoredRecord>(collection: RecordCollection, limit: number): Promise<T[]>;
+  // Inserts or replaces by id.
+  putRecords<T extends StoredRecord>(collection: RecordCollection, records: T[]): Promise<void>;
+  clearRecords(collection: RecordCollection): Promise<void>;
+  // Backends that can filter logs themselves; the rest are filtered client-side from the latest entries.
+  queryLogs?(query: LogQuery): Promise<LogPage>;
+}
+
+export const STORAGE_BACKENDS: { id: StorageBackend; label: string; description: string; requiresSession: boolean }[] = [
+  { id: "local", label: "Browser (localStorage)", description: "Default. Small quota, this browser only.", requiresSession: false },
+  { id: "indexeddb", label: "Browser (IndexedDB)", description: "Larger quota for long journals, this browser only.", requiresSession: false },
+  { id: "sqlite", label: "Server (SQLite)", description: "Stored by the Aegis server; shared by every browser you sign in from.", requiresSession: true },
+  { id: "postgres", label: "Postgres / Supabase", description: "Written through PostgREST using the gateway configured below, per signed-in user.", requiresSession: true },
+];
+
+const BACKEND_STORAGE_KEY = "aegis_storage_backend";
+
+export function requiresSession(backend: StorageBackend): boolean {
+  return STORAGE_BACKENDS.find(b => b.id === backend)?.requiresSession ?? false;
+}
+
+// The choice itself always lives in localStorage: it is needed before any backend can be opened.
+export function loadStorageBackend(): StorageBackend {
+  const saved = localStorage.getItem(BACKEND_STORAGE_KEY);
+  return STORAGE_BACKENDS.some(b => b.id === saved) ? saved as StorageBackend : "local";
+}
+
+export function saveStorageBackend(backend: StorageBackend) {
+  localStorage.setItem(BACKEND_STORAGE_KEY, backend);
+}
+
+// `owner` is the signed-in username; only the Postgres backend needs it, the server scopes by session.
+export function createStorageAdapter(backend: StorageBackend, postgrest: SyncConfig, owner: string): StorageAdapter {
+  switch (backend) {
+    case "indexeddb": return createIndexedDbAdapter();
+    case "sqlite": return createServerAdapter();
+    case "postgres": return createPostgrestAdapter(postgrest, owner);
+    default: return createLocalStorageAdapter();
+  }
+}
+
+let active: StorageAdapter = createLocalStorageAdapter();
+
+export function getStorage(): StorageAdapter {
+  return active;
+}
+
+export function setStorage(adapter: StorageAdapter) {
+  active = adapter;
+}
+
+// Documents are mirrored to localStorage so the first render has them synchronously;
+// the active backend is the source of truth and is read back when it is selected.
+export function readCachedDocument<T>(key: DocumentKey): T | null {
+  return readLocalDocument<T>(key);
+}
+
+// Remote writes of a document go one at a time, and only the newest value saved meanwhile is sent next.
+// The paper account is saved on every price tick, so unordered requests could otherwise land an older copy last.
+const queuedDocuments = new Map<DocumentKey, unknown>();
+const writingDocuments = new Set<DocumentKey>();
+
+async function flushDocument(key: DocumentKey) {
+  writingDocuments.add(key);
+  while (queuedDocuments.has(key)) {
+    const value = queuedDocuments.get(key);
+    queuedDocuments.delete(key);
+    const adapter = active;
+    try {
+      await adapter.putDocument(key, value);
+    } catch (e) {
+      console.error(`Failed to save ${key} to ${adapter.backend}`, e);
+    }
+  }
+  writingDocuments.delete(key);
+}
+
+export function saveDocument<T>(key: DocumentKey, value: T) {
+  writeLocalDocument(key, value);
+  if (active.backend === "local") return;
+  queuedDocuments.set(key, value);
+  if (!writingDocuments.has(key)) flushDocument(key);
+}
+
+export async function loadDocument<T>(key: DocumentKey): Promise<T | null> {
+  return await active.getDocument<T>(key);
+}
+
+export async function loadRecords<T extends StoredRecord>(collection: RecordCollection, limit: number): Promise<T[]> {
+  return await active.listRecords<T>(collection, limit);
+}
+
+// Failures reach the caller, so a full quota or an unreachable backend shows up in the activity log.
+export async function saveRecords<T extends StoredRecord>(collection: RecordCollection, records: T[]) {
+  await active.putRecords(collection, records);
+}
+
+export async function clearRecords(collection: RecordCollection) {
+  await active.clearRecords(collection);
+}
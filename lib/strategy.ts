@@ -0,0 +1,163 @@
+import type { PositionSide } from "@shared/schema";
+import type { IndicatorSnapshot } from "@/lib/indicators";
+import type { OrderBookSnapshot } from "@/lib/order-book";
+
+export const STRATEGY_STORAGE_KEY = "aegis_strategy_profiles";
+
+export const TEMPLATE_VARIABLES = ["symbol", "price", "indicators", "orderBook", "positionSide", "balance"] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export type StrategyVersion = {
+  version: number;
+  systemPrompt: string;
+  userTemplate: string;
+  outputConstraints: string;
+  savedAt: string;
+};
+
+// Versions are append-only so a decision can always be traced to the exact prompt that produced it.
+export type StrategyProfile = {
+  id: string;
+  name: string;
+  versions: StrategyVersion[];
+};
+
+export type StrategyDraft = Pick<StrategyVersion, "systemPrompt" | "userTemplate" | "outputConstraints">;
+
+// Prompt text sent with an analyze request; the server uses it instead of its built-in prompt.
+export type RenderedPrompt = {
+  profileId: string;
+  version: number;
+  system: string;
+  user: string;
+  outputConstraints: string;
+};
+
+export type TemplateValues = {
+  symbol: string;
+  price: number;
+  indicators?: IndicatorSnapshot;
+  orderBook?: OrderBookSnapshot;
+  positionSide: PositionSide;
+  balance: number;
+};
+
+export const DEFAULT_PROFILE_ID = "default";
+
+const DEFAULT_SYSTEM_PROMPT =
+  "You are a disciplined crypto futures trader. Trade only when trend and momentum agree, " +
+  "and prefer WAIT over a low-quality entry.";
+
+const DEFAULT_OUTPUT_CONSTRAINTS =
+  "Reply with JSON only: {\"action\": \"LONG\" | \"SHORT\" | \"CLOSE\" | \"WAIT\", \"confidence\": 0-100, " +
+  "\"reason\": string, \"stopLoss\"?: number, \"takeProfit\"?: number}.";
+
+// Shipped versions of the default profile, v1 first. A released version is never edited; a new prompt ships as the next entry.
+const DEFAULT_VERSIONS: StrategyDraft[] = [
+  {
+    systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    userTemplate:
+      "Symbol: {{symbol}}\nLast price: {{price}}\nCurrent position: {{positionSide}}\n" +
+      "Available margin: {{balance}} USDT\nIndicators: {{indicators}}\n\nDecide the next action.",
+    outputConstraints: DEFAULT_OUTPUT_CONSTRAINTS,
+  },
+  {
+    systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    userTemplate:
+      "Symbol: {{symbol}}\nLast price: {{price}}\nCurrent position: {{positionSide}}\n" +
+      "Available margin: {{balance}} USDT\nIndicators: {{indicators}}\nOrder book: {{orderBook}}\n\nDecide the next action.",
+    outputConstraints: DEFAULT_OUTPUT_CONSTRAINTS,
+  },
+];
+
+const DEFAULT_DRAFT = DEFAULT_VERSIONS[DEFAULT_VERSIONS.length - 1];
+
+function isSameDraft(a: StrategyDraft, b: StrategyDraft) {
+  return a.systemPrompt === b.systemPrompt && a.userTemplate === b.userTemplate && a.outputConstraints === b.outputConstraints;
+}
+
+export function createDefaultProfile(): StrategyProfile {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: "Default",
+    versions: DEFAULT_VERSIONS.map((draft, i) => ({ ...draft, version: i + 1, savedAt: new Date(0).toISOString() })),
+  };
+}
+
+// A saved default profile whose latest version is an unedited shipped one gets the newer shipped versions appended.
+// Profiles the user has edited are left alone; they only gain a variable such as {{orderBook}} by adding it themselves.
+function withShippedDefaults(profile: StrategyProfile): StrategyProfile {
+  if (profile.id !== DEFAULT_PROFILE_ID || profile.versions.length === 0) return profile;
+  const latest = getLatestVersion(profile);
+  const shipped = DEFAULT_VERSIONS.findIndex(draft => isSameDraft(draft, latest));
+  if (shipped === -1) return profile;
+  return DEFAULT_VERSIONS.slice(shipped + 1).reduce((p, draft) => commitStrategyVersion(p, draft), profile);
+}
+
+export function getLatestVersion(profile: StrategyProfile): StrategyVersion {
+  return profile.versions[profile.versions.length - 1];
+}
+
+export function loadStrategyProfiles(): StrategyProfile[] {
+  try {
+    const saved = localStorage.getItem(STRATEGY_STORAGE_KEY);
+    if (saved) {
+      const profiles: StrategyProfile[] = JSON.parse(saved);
+      if (profiles.length > 0) return profiles.map(withShippedDefaults);
+    }
+  } catch (e) {
+    console.error("Failed to load strategy profiles", e);
+  }
+  return [createDefaultProfile()];
+}
+
+export function saveStrategyProfiles(profiles: StrategyProfile[]) {
+  localStorage.setItem(STRATEGY_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+// Appends a version only when the draft differs from the latest one.
+export function commitStrategyVersion(profile: StrategyProfile, draft: StrategyDraft, at = new Date()): StrategyProfile {
+  const latest = getLatestVersion(profile);
+  if (latest && isSameDraft(latest, draft)) return profile;
+  const version: StrategyVersion = { ...draft, version: (latest?.version ?? 0) + 1, savedAt: at.toISOString() };
+  return { ...profile, versions: [...profile.versions, version] };
+}
+
+export function createStrategyProfile(name: string, from: StrategyDraft = DEFAULT_DRAFT): StrategyProfile {
+  return commitStrategyVersion({ id: `strategy-${Date.now()}`, name, versions: [] }, from);
+}
+
+export function findUnknownVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1]);
+  return Array.from(new Set(names.filter(n => !(TEMPLATE_VARIABLES as readonly string[]).includes(n))));
+}
+
+export function renderTemplate(template: string, values: TemplateValues): string {
+  const rendered: Record<TemplateVariable, string> = {
+    symbol: values.symbol,
+    price: String(values.price),
+    indicators: values.indicators ? JSON.stringify(values.indicators) : "unavailable",
+    orderBook: values.orderBook ? JSON.stringify(values.orderBook) : "unavailable",
+    positionSide: values.positionSide,
+    balance: values.balance.toFixed(2),
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in rendered ? rendered[name as TemplateVariable] : match);
+}
+
+// Unknown profile ids fall back to the first profile so a deleted profile never leaves a bot without a prompt.
+export function resolveProfile(profiles: StrategyProfile[], profileId: string): StrategyProfile {
+  return profiles.find(p => p.id === profileId) ?? profiles[0] ?? createDefaultProfile();
+}
+
+export function renderPrompt(profile: StrategyProfile, values: TemplateValues): RenderedPrompt {
+  const version = getLatestVersion(profile);
+  return {
+    profileId: profile.id,
+    version: version.version,
+    system: version.systemPrompt,
+    user: renderTemplate(version.userTemplate, values),
+    outputConstraints: version.outputConstraints,
+  };
+}
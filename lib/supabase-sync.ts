@@ -0,0 +1,176 @@
+import type { DashboardSettings } from "@/lib/settings";
+import { stripSecrets } from "@/lib/settings";
+import { parseStoredSettings, toStoredSettings } from "@/lib/settings-schema";
+import type { DashboardLog } from "@/lib/logs";
+
+export type SyncStatus = "CONNECTED" | "DISCONNECTED" | "ERROR";
+
+export type SyncConfig = {
+  url: string;
+  anonKey: string;
+};
+
+type RemoteSettingsRow = {
+  key: string;
+  value: string;
+  updated_at: string;
+};
+
+// A remote copy comes back as stored; the caller lays it over the current settings with `keepDeviceLocal`.
+export type PullResult =
+  | { kind: "REMOTE_NEWER"; settings: DashboardSettings; updatedAt: string }
+  | { kind: "LOCAL_NEWER" }
+  | { kind: "IN_SYNC" };
+
+export const SETTINGS_TABLE = "aegis_settings";
+export const LOGS_TABLE = "aegis_logs";
+export const RECORDS_TABLE = "aegis_records";
+
+// Rows are keyed by dashboard username, and the anon key can read and write all of them.
+// A project therefore serves one tenant: one person, or a team that trusts each other.
+// The script is safe to re-run: a project set up by an earlier build is brought up to date in place.
+export const SYNC_SCHEMA_SQL = `-- Single tenant: anyone holding the anon key can read and write every row below.
+-- Give each user or team their own project rather than sharing one.
+-- Re-run the whole script after upgrading; existing tables are altered, not recreated.
+CREATE TABLE IF NOT EXISTS aegis_settings (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  key TEXT UNIQUE NOT NULL,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS aegis_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  level TEXT NOT NULL,
+  type TEXT NOT NULL,
+  message TEXT NOT NULL,
+  symbol TEXT,
+  bot_id TEXT,
+  payload JSONB
+);
+
+-- Log tables from before structured logs: add the new columns and derive level from type.
+ALTER TABLE aegis_logs ADD COLUMN IF NOT EXISTS level TEXT;
+UPDATE aegis_logs SET level = CASE WHEN type = 'ERROR' THEN 'ERROR' WHEN type IN ('RISK', 'GATE') THEN 'WARN' ELSE 'INFO' END
+  WHERE level IS NULL;
+ALTER TABLE aegis_logs ALTER COLUMN level SET NOT NULL;
+ALTER TABLE aegis_logs ADD COLUMN IF NOT EXISTS symbol TEXT;
+ALTER TABLE aegis_logs ADD COLUMN IF NOT EXISTS bot_id TEXT;
+ALTER TABLE aegis_logs ADD COLUMN IF NOT EXISTS payload JSONB;
+
+CREATE TABLE IF NOT EXISTS aegis_records (
+  owner TEXT NOT NULL,
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+  data JSONB NOT NULL,
+  PRIMARY KEY (owner, collection, id)
+);
+
+-- Record tables from before per-user scoping: existing rows get an empty owner and no longer load.
+-- To keep them, run UPDATE aegis_records SET owner = '<username>' WHERE owner = '';
+ALTER TABLE aegis_records ADD COLUMN IF NOT EXISTS owner TEXT NOT NULL DEFAULT '';
+ALTER TABLE aegis_records ALTER COLUMN owner DROP DEFAULT;
+ALTER TABLE aegis_records DROP CONSTRAINT IF EXISTS aegis_records_pkey;
+ALTER TABLE aegis_records ADD PRIMARY KEY (owner, collection, id);`;
+
+export function isSyncConfigured(config: SyncConfig): boolean {
+  return config.url.trim() !== "";
+}
+
+// Supabase serves PostgREST under /rest/v1. Any other URL is taken as the PostgREST root itself,
+// so a local `postgrest` on http://localhost:3000 works unchanged.
+export function getRestUrl(url: string): string {
+  const base = url.trim().replace(/\/+$/, "");
+  if (base.endsWith("/rest/v1")) return base;
+  try {
+    const { hostname } = new URL(base);
+    if (hostname.endsWith(".supabase.co") || hostname.endsWith(".supabase.in")) return `${base}/rest/v1`;
+  } catch {
+    // Left as-is; the request itself reports the bad URL.
+  }
+  return base;
+}
+
+// A bare PostgREST without a JWT secret rejects any Authorization header, so the key is only sent when set.
+function headers(config: SyncConfig, extra: Record<string, string> = {}): Record<string, string> {
+  const key = config.anonKey.trim();
+  return {
+    "Content-Type": "application/json",
+    ...(key ? { apikey: key, Authorization: `Bearer ${key}` } : {}),
+    ...extra,
+  };
+}
+
+export async function restRequest(config: SyncConfig, path: string, init: RequestInit & { headers?: Record<string, string> } = {}) {
+  const res = await fetch(`${getRestUrl(config.url)}/${path}`, { ...init, headers: headers(config, init.headers) });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return res;
+}
+
+// One settings row per dashboard user.
+export function settingsKey(username: string): string {
+  return `dashboard:${username}`;
+}
+
+// The sync target itself stays device-local: pulling it from the remote could point a device at another project.
+function toRemoteSettings(settings: DashboardSettings) {
+  const { supabaseUrl: _url, supabaseAnonKey: _key, ...remote } = stripSecrets(settings);
+  return remote;
+}
+
+export async function checkConnection(config: SyncConfig): Promise<void> {
+  await restRequest(config, `${SETTINGS_TABLE}?select=key&limit=1`);
+}
+
+export async function pushSettings(config: SyncConfig, username: string, settings: DashboardSettings, updatedAt: string) {
+  const row: RemoteSettingsRow = {
+    key: settingsKey(username),
+    value: JSON.stringify(toStoredSettings(toRemoteSettings(settings))),
+    updated_at: updatedAt,
+  };
+  await restRequest(config, `${SETTINGS_TABLE}?on_conflict=key`, {
+    method: "POST",
+    headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+    body: JSON.stringify([row]),
+  });
+}
+
+// Last writer wins on updated_at. A device that has never saved locally always takes the remote copy.
+export async function pullSettings(config: SyncConfig, username: string, localUpdatedAt: string | null): Promise<PullResult> {
+  const res = await restRequest(config, `${SETTINGS_TABLE}?key=eq.${encodeURIComponent(settingsKey(username))}&select=key,value,updated_at`);
+  const rows: RemoteSettingsRow[] = await res.json();
+  const remote = rows[0];
+  if (!remote) return localUpdatedAt ? { kind: "LOCAL_NEWER" } : { kind: "IN_SYNC" };
+
+  const remoteTime = new Date(remote.updated_at).getTime();
+  const localTime = localUpdatedAt ? new Date(localUpdatedAt).getTime() : 0;
+  if (remoteTime === localTime) return { kind: "IN_SYNC" };
+  if (localTime > remoteTime) return { kind: "LOCAL_NEWER" };
+
+  return {
+    kind: "REMOTE_NEWER",
+    settings: parseStoredSettings(JSON.parse(remote.value), "Supabase").settings,
+    updatedAt: remote.updated_at,
+  };
+}
+
+export async function pushLog(config: SyncConfig, log: DashboardLog) {
+  await restRequest(config, LOGS_TABLE, {
+    method: "POST",
+    headers: { Prefer: "return=minimal" },
+    body: JSON.stringify({
+      timestamp: log.timestamp,
+      level: log.level,
+      type: log.type,
+      message: log.message,
+      symbol: log.symbol,
+      bot_id: log.botId,
+      payload: log.payload ?? null,
+    }),
+  });
+}
@@ -1,7 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
-import { 
-  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area 
-} from 'recharts';
+import { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { Card } from '@/components/ui/card';
@@ -10,63 +7,171 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useCredentials } from '@/hooks/use-credentials';
+import { useBots } from '@/hooks/use-bots';
+import { useMarketStream } from '@/hooks/use-market-stream';
+import { useSupabaseSync } from '@/hooks/use-supabase-sync';
+import type { StreamTicker, StreamStatus } from '@/hooks/use-market-stream';
+import { CredentialField } from '@/components/dashboard/credential-field';
+import { ClampedNumberInput } from '@/components/dashboard/clamped-number-input';
+import { BacktestView } from '@/components/dashboard/backtest-view';
+import { CandlestickChart } from '@/components/dashboard/candlestick-chart';
+import { Watchlist, SymbolOverridesEditor } from '@/components/dashboard/watchlist';
+import { CustomProviderFields } from '@/components/dashboard/custom-provider-fields';
+import { StrategyEditor } from '@/components/dashboard/strategy-editor';
+import { DecisionJournal } from '@/components/dashboard/decision-journal';
+import { SignalScoreboard } from '@/components/dashboard/signal-scoreboard';
+import { ActivityLogs } from '@/components/dashboard/activity-logs';
+import { SettingsPresets } from '@/components/dashboard/settings-presets';
+import { SettingsTransfer } from '@/components/dashboard/settings-transfer';
+import { OrderBookPanel } from '@/components/dashboard/order-book-panel';
+import {
+  loadSettings, loadStoredSettings, saveSettings, loadSettingsUpdatedAt, hasUnsavedChanges, keepDeviceLocal, getLegacySecrets, clearLegacySecrets,
+  getBracketConfig, getRiskLimits, getPaperConfig, getGateConfig, getWatchlist, getSymbolSettings, migrateStoredSettings, RISK_PERCENT_LIMITS
+} from '@/lib/settings';
+import { describeSettingsReport } from '@/lib/settings-schema';
+import { loadUserPresets, saveUserPresets, createPreset, applyPreset } from '@/lib/presets';
+import type { SettingsPreset } from '@/lib/presets';
+import type { DashboardSettings, CredentialKind, SymbolOverrides } from '@/lib/settings';
+import { buildBotConfig } from '@/lib/bot';
+import { computePositionSize, getAvailableMargin, formatQuantity } from '@/lib/sizing';
+import { resolveBrackets, latestAtr, distancePercent } from '@/lib/brackets';
+import type { BracketedTradeAction, BracketedPosition, BracketMode } from '@/lib/brackets';
+import {
+  computeRiskSnapshot, checkRiskLimits, getEquity,
+  loadHaltState, saveHaltState, loadPeakEquity, savePeakEquity, loadRiskResetAt, saveRiskResetAt
+} from '@/lib/risk';
+import type { HaltState, HaltReason, RiskAccount } from '@/lib/risk';
+import { createLog, writeLog } from '@/lib/logs';
+import { SYNC_SCHEMA_SQL, getRestUrl } from '@/lib/supabase-sync';
+import {
+  STORAGE_BACKENDS, createStorageAdapter, setStorage, loadStorageBackend, saveStorageBackend, requiresSession
+} from '@/lib/storage';
+import type { StorageBackend } from '@/lib/storage';
+import type { DashboardLog, LogType, LogContext } from '@/lib/logs';
+import {
+  createPaperAccount, loadPaperAccount, loadStoredPaperAccount, savePaperAccount, applyPaperDecision,
+  closePaperPositions, markPaperAccount, getPaperBalances
+} from '@/lib/paper-exchange';
+import type { PaperAccount, PaperFill } from '@/lib/paper-exchange';
+import type { Brackets } from '@/lib/brackets';
+import { buildAnalyzeRequest } from '@/lib/analyze';
+import { requestTradeDecision } from '@/lib/consensus';
+import { checkTradeAction, DecisionRejectedError } from '@/lib/decision-schema';
+import { evaluateGates, recordGateTrade, createGateState, loadGateStates, saveGateStates } from '@/lib/gates';
+import type { SignalSource } from '@/lib/gates';
+import { AI_PROVIDERS, PROVIDER_LABELS } from '@/lib/providers';
+import type { ProviderId } from '@/lib/providers';
+import { loadStrategyProfiles, saveStrategyProfiles, resolveProfile, renderPrompt, getLatestVersion } from '@/lib/strategy';
+import type { StrategyProfile } from '@/lib/strategy';
+import type { ConsensusDecision, ConsensusRule } from '@/lib/consensus';
+import { fetchTickers, fetchKlines, KLINE_INTERVALS, KLINE_LIMIT } from '@/lib/market';
+import type { Ticker, KlineInterval, Candle } from '@/lib/market';
+import { computeIndicators } from '@/lib/indicators';
+import { summarizeBook } from '@/lib/order-book';
+import {
+  loadJournal, saveJournalEntries, clearJournalEntries, appendJournalEntry, combineJournalEntries, createJournalEntry, createBotJournalEntry, failedCall, mergeJournalEntries
+} from '@/lib/journal';
+import type { JournalEntry, JournalContext } from '@/lib/journal';
+import { scorePendingEntries, SCORING_HORIZONS } from '@/lib/scoring';
 import { 
   Zap, Wallet, Settings, Cloud, List, Bot, TrendingUp, TrendingDown, 
-  Activity, Play, Square, LogOut, ChevronRight, RefreshCw, Shield
+  Activity, Play, Square, LogOut, ChevronRight, RefreshCw, Shield, OctagonX, FlaskConical, BookOpen
 } from 'lucide-react';
 import type { 
-  AppSettings, MarketData, Position, PositionSide, TradingLog, TradeAction, 
-  AIProvider, MexcBalance, MexcOrder, MexcTrade 
+  MarketData, PositionSide, 
+  MexcBalance, MexcOrder, MexcTrade 
 } from '@shared/schema';
 
-const STORAGE_KEY = 'aegis_ai_settings_v10';
-
-const defaultSettings: AppSettings = {
-  aiProvider: 'gemini',
-  geminiApiKey: '',
-  openaiApiKey: '',
-  deepseekApiKey: '',
-  mexcApiKey: '',
-  mexcSecretKey: '',
-  tradingSymbol: 'BTCUSDT',
-  defaultLeverage: 10,
-  riskPercent: 2,
-  isAutoTrading: false,
-  intervalMinutes: 1,
-  isLiveMode: false,
-  supabaseUrl: '',
-  supabaseAnonKey: ''
-};
-
-type ViewType = 'DASHBOARD' | 'PORTFOLIO' | 'SETTINGS' | 'CLOUD' | 'LOGS';
+type ViewType = 'DASHBOARD' | 'PORTFOLIO' | 'BACKTEST' | 'JOURNAL' | 'SETTINGS' | 'CLOUD' | 'LOGS';
 type AccountSubView = 'BALANCES' | 'POSITIONS' | 'ORDERS' | 'HISTORY';
 
+// Streamed tickers arrive many times a second; the price history fed to the AI keeps one point per interval.
+const HISTORY_SAMPLE_MS = 5000;
+const FALLBACK_POLL_MS = 5000;
+const WATCHLIST_POLL_MS = 10000;
+const SCORING_POLL_MS = 60000;
+// A burst of log writes (a bot cycle, a watchlist refresh) refetches the logs view once.
+const LOG_REFRESH_DELAY_MS = 1000;
+// Recent entries kept in memory; the server store holds the full history.
+const SESSION_LOG_LIMIT = 500;
+
+const streamBadgeVariant: Record<StreamStatus, 'default' | 'secondary' | 'destructive'> = {
+  OPEN: 'default',
+  CONNECTING: 'secondary',
+  RECONNECTING: 'destructive',
+  CLOSED: 'destructive'
+};
+
 export default function TradingDashboard() {
   const { toast } = useToast();
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const { user, isLoading: isAuthLoading, loginMutation, logoutMutation } = useAuth();
+  const isLoggedIn = !!user;
+  const [storageBackend, setStorageBackend] = useState<StorageBackend>(loadStorageBackend);
+  // The server and Postgres backends are per user, so nothing is stored there while signed out.
+  const isStoreEnabled = !requiresSession(storageBackend) || isLoggedIn;
+  const isStoreEnabledRef = useRef(isStoreEnabled);
+  isStoreEnabledRef.current = isStoreEnabled;
+  // With the Postgres backend active, logs already land in that database and are not streamed to it a second time.
+  const isLogStored = storageBackend === 'postgres' && isStoreEnabled;
+  const isLogStoredRef = useRef(isLogStored);
+  isLogStoredRef.current = isLogStored;
   const [loginForm, setLoginForm] = useState({ username: '', password: '' });
   const [loginError, setLoginError] = useState('');
 
-  const [settings, setSettings] = useState<AppSettings>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) return JSON.parse(saved);
-    } catch (e) {
-      console.error("Failed to load local settings", e);
-    }
-    return defaultSettings;
+  const [settings, setSettings] = useState<DashboardSettings>(loadSettings);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const riskAccount: RiskAccount = settings.isLiveMode ? 'live' : 'paper';
+  const { credentials, storeMutation, revokeMutation } = useCredentials(isLoggedIn);
+  const mexcCredentialId = settings.credentialIds.mexc;
+  const aiCredentialId = settings.credentialIds[settings.aiProvider];
+  const { bots, runningBots, startMutation, stopMutation, configMutation } = useBots(isLoggedIn);
+  const watchlist = getWatchlist(settings);
+  const watchlistSymbols = watchlist.map(e => e.symbol);
+  // Global settings with the focused symbol's overrides applied; drives the manual cycle and the dashboard.
+  const focusSettings = useMemo(() => getSymbolSettings(settings, settings.tradingSymbol), [settings]);
+  const botStatus = bots.find(b => b.symbol === settings.tradingSymbol);
+  const isBotRunning = !!botStatus?.isRunning;
+
+  const { data: tickers = [] } = useQuery<Ticker[]>({
+    queryKey: ['/api/market/tickers', watchlistSymbols.join(',')],
+    queryFn: () => fetchTickers(watchlistSymbols),
+    refetchInterval: WATCHLIST_POLL_MS
   });
 
   const [marketData, setMarketData] = useState<MarketData | null>(null);
   const [spotBalances, setSpotBalances] = useState<MexcBalance[]>([]);
   const [futuresBalances, setFuturesBalances] = useState<MexcBalance[]>([]);
-  const [mexcPositions, setMexcPositions] = useState<Position[]>([]);
+  const [mexcPositions, setMexcPositions] = useState<BracketedPosition[]>([]);
   const [mexcOrders, setMexcOrders] = useState<MexcOrder[]>([]);
   const [mexcTrades, setMexcTrades] = useState<MexcTrade[]>([]);
   
-  const [logs, setLogs] = useState<TradingLog[]>([]);
-  const [lastAction, setLastAction] = useState<TradeAction | null>(null);
+  const [logs, setLogs] = useState<DashboardLog[]>([]);
+  const [haltState, setHaltState] = useState<HaltState | null>(loadHaltState);
+  const [peakEquity, setPeakEquity] = useState(() => loadPeakEquity(riskAccount));
+  // The account the balances, positions and trades above were loaded for; it lags a mode switch by one render.
+  const [loadedAccount, setLoadedAccount] = useState<RiskAccount>(riskAccount);
+  const [riskResetAt, setRiskResetAt] = useState(loadRiskResetAt);
+  const [paperAccount, setPaperAccount] = useState<PaperAccount>(() => loadPaperAccount(settings.paperStartingBalance));
+  const paperAccountRef = useRef(paperAccount);
+  paperAccountRef.current = paperAccount;
+  // Last decision seen per bot; a symbol missing here has not reported a status yet.
+  const seenDecisionAtRef = useRef<Record<string, string | null>>({});
+  const seenErrorRef = useRef<Record<string, string | null>>({});
+  const gateStatesRef = useRef(loadGateStates());
+  const [gateBlock, setGateBlock] = useState<string | null>(null);
+  const [lastAction, setLastAction] = useState<ConsensusDecision | null>(null);
+  // Loaded from the storage backend once it is selected; see the hydration effect.
+  const [journal, setJournal] = useState<JournalEntry[]>([]);
+  const journalRef = useRef(journal);
+  journalRef.current = journal;
+  const [strategyProfiles, setStrategyProfiles] = useState<StrategyProfile[]>(loadStrategyProfiles);
+  const activeProfile = resolveProfile(strategyProfiles, focusSettings.strategyProfileId);
+  const [userPresets, setUserPresets] = useState<SettingsPreset[]>(loadUserPresets);
   const [isLoading, setIsLoading] = useState(true);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [view, setView] = useState<ViewType>('DASHBOARD');
@@ -74,150 +179,774 @@ export default function TradingDashboard() {
   const [saveStatus, setSaveStatus] = useState<string | null>(null);
 
   const [mexcStatus, setMexcStatus] = useState<'CONNECTED' | 'DISCONNECTED' | 'ERROR'>('DISCONNECTED');
-  const [supabaseStatus, setSupabaseStatus] = useState<'CONNECTED' | 'DISCONNECTED' | 'ERROR'>('DISCONNECTED');
-
-  const addLog = useCallback((type: TradingLog['type'], message: string) => {
-    const newLog: TradingLog = {
-      id: Date.now().toString(),
-      timestamp: new Date().toLocaleTimeString(),
-      type,
-      message
-    };
-    setLogs(prev => [newLog, ...prev].slice(0, 100));
+  const {
+    status: supabaseStatus, lastError: syncError, lastSyncedAt, syncSettings, pull: pullRemoteSettings, syncLog
+  } = useSupabaseSync({ url: settings.supabaseUrl, anonKey: settings.supabaseAnonKey }, user?.username ?? null);
+  const syncLogRef = useRef(syncLog);
+  syncLogRef.current = syncLog;
+  const pulledForRef = useRef<string | null>(null);
+  const isMigratingKeysRef = useRef(false);
+  const logRefreshTimerRef = useRef<number | null>(null);
+
+  const sizePosition = useCallback((stopDistancePercent: number) => computePositionSize({
+    balance: getAvailableMargin(futuresBalances),
+    riskPercent: focusSettings.riskPercent,
+    leverage: focusSettings.defaultLeverage,
+    entryPrice: marketData?.price ?? 0,
+    stopDistancePercent,
+    // Live orders fall back to the exchange's typical costs.
+    ...(focusSettings.isLiveMode ? {} : getPaperConfig(focusSettings))
+  }), [futuresBalances, focusSettings, marketData?.price]);
+  // Same cache entry as the chart and the trading cycle, so brackets use the candles the model is shown.
+  const { data: indicatorCandles = [] } = useQuery<Candle[]>({
+    queryKey: ['/api/market/klines', settings.tradingSymbol, settings.indicatorInterval],
+    queryFn: () => fetchKlines(settings.tradingSymbol, settings.indicatorInterval, KLINE_LIMIT),
+    refetchInterval: 15000
+  });
+  const atr = useMemo(() => latestAtr(indicatorCandles), [indicatorCandles]);
+  const signalBrackets = lastAction && marketData
+    ? resolveBrackets(lastAction, marketData.price, getBracketConfig(settings), atr)
+    : null;
+  const positionSize = sizePosition(signalBrackets?.stopDistancePercent ?? settings.stopDistancePercent);
+
+  const riskSnapshot = useMemo(
+    () => computeRiskSnapshot(mexcTrades, mexcPositions, getEquity(futuresBalances), peakEquity, riskResetAt),
+    [mexcTrades, mexcPositions, futuresBalances, peakEquity, riskResetAt]
+  );
+
+  const addLog = useCallback((type: LogType, message: string, context?: LogContext) => {
+    const newLog = createLog(type, message, context);
+    setLogs(prev => [newLog, ...prev].slice(0, SESSION_LOG_LIMIT));
+    if (!isLogStoredRef.current) syncLogRef.current(newLog);
+    if (!isStoreEnabledRef.current) return;
+    writeLog(newLog).then(() => {
+      if (logRefreshTimerRef.current !== null) return;
+      logRefreshTimerRef.current = window.setTimeout(() => {
+        logRefreshTimerRef.current = null;
+        queryClient.invalidateQueries({ queryKey: ['logs'] });
+      }, LOG_REFRESH_DELAY_MS);
+    });
   }, []);
 
-  const handleSave = useCallback(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  useEffect(() => () => {
+    if (logRefreshTimerRef.current !== null) window.clearTimeout(logRefreshTimerRef.current);
+  }, []);
+
+  const syncRunningBots = useCallback((next: DashboardSettings, profiles: StrategyProfile[]) => {
+    runningBots.forEach(async ({ symbol }) => {
+      try {
+        await configMutation.mutateAsync({ symbol, config: buildBotConfig(getSymbolSettings(next, symbol), profiles) });
+        addLog('INFO', `${symbol} bot picked up the new configuration`, { symbol, botId: symbol });
+      } catch (err) {
+        addLog('ERROR', `${symbol} bot config update failed: ${err instanceof Error ? err.message : 'Unknown'}`, { symbol, botId: symbol });
+      }
+    });
+  }, [addLog, runningBots, configMutation.mutateAsync]);
+
+  const pushSettingsToCloud = useCallback(async (next: DashboardSettings, updatedAt: string) => {
+    try {
+      if (await syncSettings(next, updatedAt)) addLog('SUCCESS', 'Configuration synced to cloud.');
+    } catch (err) {
+      addLog('ERROR', `Cloud settings sync failed: ${err instanceof Error ? err.message : 'Unknown'}`);
+    }
+  }, [syncSettings, addLog]);
+
+  // Saving, presets and imports all persist, sync and reconfigure running bots the same way.
+  const commitSettings = useCallback((next: DashboardSettings, message: string) => {
+    const updatedAt = new Date().toISOString();
+    setSettings(next);
+    saveSettings(next, updatedAt);
     setSaveStatus('Saved');
-    addLog('SUCCESS', 'Configuration saved locally.');
+    addLog('SUCCESS', message);
+    pushSettingsToCloud(next, updatedAt);
+    syncRunningBots(next, strategyProfiles);
     setTimeout(() => setSaveStatus(null), 3000);
+  }, [addLog, pushSettingsToCloud, syncRunningBots, strategyProfiles]);
+
+  const handleSave = useCallback(() => {
+    commitSettings(settings, 'Configuration saved locally.');
+  }, [settings, commitSettings]);
+
+  const updateUserPresets = (presets: SettingsPreset[]) => {
+    setUserPresets(presets);
+    saveUserPresets(presets);
+  };
+
+  const handleApplyPreset = (preset: SettingsPreset) => {
+    commitSettings(applyPreset(settings, preset), `Preset "${preset.name}" applied.`);
+  };
+
+  // Profile versions take effect immediately; running bots get the new prompt on their next cycle.
+  const updateStrategyProfiles = (profiles: StrategyProfile[]) => {
+    setStrategyProfiles(profiles);
+    saveStrategyProfiles(profiles);
+    const changed = profiles.find(p => {
+      const previous = strategyProfiles.find(o => o.id === p.id);
+      return !previous || getLatestVersion(previous).version !== getLatestVersion(p).version;
+    });
+    if (changed) addLog('SUCCESS', `Strategy "${changed.name}" saved as v${getLatestVersion(changed).version}`);
+    syncRunningBots(settings, profiles);
+  };
+
+  const recordJournal = useCallback((entry: JournalEntry) => {
+    setJournal(prev => appendJournalEntry(prev, entry));
+    saveJournalEntries([entry])
+      .catch(err => addLog('ERROR', `Saving the decision journal failed: ${err instanceof Error ? err.message : 'Unknown'}`));
+  }, [addLog]);
+
+  const switchStorageBackend = (backend: StorageBackend) => {
+    saveStorageBackend(backend);
+    setStorageBackend(backend);
+    addLog('INFO', `Storage backend set to ${STORAGE_BACKENDS.find(b => b.id === backend)?.label ?? backend}`);
+  };
+
+  // The view is only emptied once the backend has cleared, so a failed clear does not hide entries that come back on reload.
+  const clearJournal = async () => {
+    try {
+      await clearJournalEntries();
+      setJournal([]);
+    } catch (err) {
+      addLog('ERROR', `Clearing the decision journal failed: ${err instanceof Error ? err.message : 'Unknown'}`);
+    }
+  };
+
+  const commitPaperFill = useCallback((fill: PaperFill) => {
+    paperAccountRef.current = fill.account;
+    setPaperAccount(fill.account);
+    savePaperAccount(fill.account);
+    fill.fills.forEach(f => addLog('TRADE',
+      `[SIM] ${f.side} ${formatQuantity(f.quantity)} @ ${f.price.toFixed(2)}` +
+      (f.reason ? ` (${f.reason.replace('_', ' ')})` : '') +
+      ` PnL ${f.pnl >= 0 ? '+' : ''}${f.pnl.toFixed(2)}`
+    ));
+  }, [addLog]);
+
+  const executePaperDecision = useCallback((symbol: string, decision: BracketedTradeAction, brackets: Brackets | null, price: number) => {
+    const symbolSettings = getSymbolSettings(settings, symbol);
+    const fill = applyPaperDecision(
+      paperAccountRef.current,
+      symbol,
+      decision,
+      brackets,
+      price,
+      { riskPercent: symbolSettings.riskPercent, leverage: symbolSettings.defaultLeverage },
+      getPaperConfig(settings)
+    );
+    if (fill.error) addLog('ERROR', `[SIM] ${symbol} trade skipped: ${fill.error}`, { symbol });
+    commitPaperFill(fill);
+    return fill;
+  }, [settings, addLog, commitPaperFill]);
+
+  // Every decision passes through the gates, WAIT included, so confirmation streaks see the full signal history.
+  const passesGates = useCallback((symbol: string, decision: BracketedTradeAction, source: SignalSource) => {
+    const result = evaluateGates(
+      decision,
+      gateStatesRef.current[symbol] ?? createGateState(),
+      getGateConfig(getSymbolSettings(settings, symbol)),
+      source
+    );
+    gateStatesRef.current = { ...gateStatesRef.current, [symbol]: result.state };
+    saveGateStates(gateStatesRef.current);
+    if (symbol === settings.tradingSymbol) setGateBlock(result.blocked ? `${result.blocked.gate}: ${result.blocked.message}` : null);
+    if (result.blocked) addLog('GATE', `${symbol} ${decision.action} blocked by ${result.blocked.gate}: ${result.blocked.message}`, { symbol, payload: decision });
+    return !result.blocked;
   }, [settings, addLog]);
 
-  const handleLogin = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (loginForm.username === 'admin' && loginForm.password === '666666') {
-      setIsLoggedIn(true);
-      setLoginError('');
-      addLog('SUCCESS', 'Login successful');
+  const recordTrade = useCallback((symbol: string, action: BracketedTradeAction['action']) => {
+    gateStatesRef.current = {
+      ...gateStatesRef.current,
+      [symbol]: recordGateTrade(gateStatesRef.current[symbol] ?? createGateState(), action)
+    };
+    saveGateStates(gateStatesRef.current);
+  }, []);
+
+  const resetPaperAccount = () => {
+    commitPaperFill({ account: createPaperAccount(settings.paperStartingBalance), fills: [] });
+    // A fresh account starts a fresh drawdown; the old peak would read as a loss if the new balance is lower.
+    savePeakEquity('paper', settings.paperStartingBalance);
+    if (!settings.isLiveMode) setPeakEquity(settings.paperStartingBalance);
+    addLog('INFO', `Paper account reset to ${settings.paperStartingBalance} USDT`);
+  };
+
+  // Stops every server bot and flattens open positions. Stays in effect across reloads until reset.
+  const haltTrading = useCallback(async (reason: HaltReason, message: string) => {
+    const state: HaltState = { reason, message, haltedAt: new Date().toISOString() };
+    setHaltState(state);
+    saveHaltState(state);
+    addLog('RISK', `Trading halted: ${message}`);
+
+    await Promise.all(runningBots.map(async ({ symbol }) => {
+      try {
+        await stopMutation.mutateAsync(symbol);
+      } catch (err) {
+        addLog('ERROR', `Failed to stop ${symbol} bot: ${err instanceof Error ? err.message : 'Unknown'}`, { symbol, botId: symbol });
+      }
+    }));
+
+    if (!settings.isLiveMode) {
+      // Paper positions are marked on every ticker, so their last price is current enough to close at.
+      commitPaperFill(closePaperPositions(paperAccountRef.current, p => p.currentPrice, () => 'FLATTEN', getPaperConfig(settings)));
+      addLog('RISK', 'All paper positions flattened');
+    } else if (mexcCredentialId) {
+      await Promise.all(watchlistSymbols.map(async symbol => {
+        try {
+          await apiRequest('POST', '/api/mexc/flatten', { credentialId: mexcCredentialId, symbol });
+          addLog('RISK', `${symbol} positions flattened`, { symbol });
+        } catch (err) {
+          addLog('ERROR', `${symbol} flatten failed: ${err instanceof Error ? err.message : 'Unknown'}`, { symbol });
+        }
+      }));
+    }
+  }, [addLog, stopMutation.mutateAsync, runningBots, settings, watchlistSymbols.join(','), mexcCredentialId, commitPaperFill]);
+
+  // Daily loss and the loss streak restart from now, so the breach check does not re-halt on the trades already counted.
+  const resetHalt = () => {
+    const now = Date.now();
+    setRiskResetAt(now);
+    saveRiskResetAt(now);
+    setHaltState(null);
+    saveHaltState(null);
+    setPeakEquity(riskSnapshot.equity);
+    savePeakEquity(riskAccount, riskSnapshot.equity);
+    addLog('RISK', 'Risk halt cleared manually');
+  };
+
+  const toggleBot = async (symbol: string) => {
+    if (bots.find(b => b.symbol === symbol)?.isRunning) {
+      try {
+        await stopMutation.mutateAsync(symbol);
+        addLog('INFO', `${symbol} bot stopped`, { symbol, botId: symbol });
+      } catch (err) {
+        addLog('ERROR', `Failed to stop ${symbol} bot: ${err instanceof Error ? err.message : 'Unknown'}`, { symbol, botId: symbol });
+      }
     } else {
-      setLoginError('Invalid credentials.');
+      if (haltState) {
+        addLog('RISK', `Bot start blocked: ${haltState.message}`);
+        return;
+      }
+      try {
+        const status = await startMutation.mutateAsync({ symbol, config: buildBotConfig(getSymbolSettings(settings, symbol), strategyProfiles) });
+        addLog('SUCCESS', `Server bot started on ${status.symbol} every ${status.intervalMinutes}m`, { symbol: status.symbol, botId: status.symbol });
+      } catch (err) {
+        addLog('ERROR', `Failed to start ${symbol} bot: ${err instanceof Error ? err.message : 'Unknown'}`, { symbol, botId: symbol });
+      }
+    }
+  };
+
+  // Focus only changes what the dashboard shows; bots on other symbols keep running.
+  const focusSymbol = (symbol: string) => {
+    if (symbol === settings.tradingSymbol) return;
+    setSettings(s => {
+      const updated = { ...s, tradingSymbol: symbol, watchlist: getWatchlist(s) };
+      saveSettings(updated);
+      return updated;
+    });
+  };
+
+  const updateWatchlist = (update: (entries: DashboardSettings['watchlist']) => DashboardSettings['watchlist']) => {
+    setSettings(s => {
+      const updated = { ...s, watchlist: update(getWatchlist(s)) };
+      saveSettings(updated);
+      return updated;
+    });
+  };
+
+  const addWatchlistSymbol = (symbol: string) => {
+    updateWatchlist(entries => [...entries, { symbol, overrides: {} }]);
+    addLog('INFO', `${symbol} added to watchlist`, { symbol });
+  };
+
+  const removeWatchlistSymbol = (symbol: string) => {
+    updateWatchlist(entries => entries.filter(e => e.symbol !== symbol));
+    addLog('INFO', `${symbol} removed from watchlist`, { symbol });
+  };
+
+  const updateSymbolOverrides = (symbol: string, overrides: SymbolOverrides) => {
+    setSettings(s => ({ ...s, watchlist: getWatchlist(s).map(e => e.symbol === symbol ? { ...e, overrides } : e) }));
+  };
+
+  const updateCredentialId = useCallback((kind: CredentialKind, id: string | undefined) => {
+    setSettings(s => {
+      const updated = { ...s, credentialIds: { ...s.credentialIds, [kind]: id } };
+      saveSettings(updated);
+      return updated;
+    });
+  }, []);
+
+  // Resolves to whether the vault accepted the key; failures are logged here.
+  const storeCredential = useCallback(async (kind: CredentialKind, secrets: Record<string, string>) => {
+    try {
+      const credential = await storeMutation.mutateAsync({ kind, secrets });
+      updateCredentialId(kind, credential.id);
+      addLog('SUCCESS', `${kind.toUpperCase()} key stored in vault (••••${credential.fingerprint})`);
+      return true;
+    } catch (err) {
+      addLog('ERROR', `Vault error: ${err instanceof Error ? err.message : 'Unknown'}`);
+      return false;
     }
+  }, [storeMutation.mutateAsync, updateCredentialId, addLog]);
+
+  const revokeCredential = useCallback((kind: CredentialKind, id: string) => {
+    revokeMutation.mutate(id, {
+      onSuccess: () => {
+        updateCredentialId(kind, undefined);
+        addLog('INFO', `${kind.toUpperCase()} key removed from vault`);
+      },
+      onError: (err) => addLog('ERROR', `Vault error: ${err.message}`)
+    });
+  }, [revokeMutation.mutate, updateCredentialId, addLog]);
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoginError('');
+    loginMutation.mutate(loginForm, {
+      onSuccess: (sessionUser) => {
+        setLoginForm({ username: '', password: '' });
+        addLog('SUCCESS', `Login successful (${sessionUser.username})`);
+      },
+      onError: (err) => {
+        setLoginError(err.message.startsWith('401') ? 'Invalid credentials.' : `Login failed: ${err.message}`);
+      }
+    });
   };
 
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSettled: () => addLog('INFO', 'Signed out')
+    });
+  };
+
+  const lastHistorySampleRef = useRef(0);
+
+  const applyTicker = useCallback((ticker: StreamTicker) => {
+    const now = Date.now();
+    const shouldSample = now - lastHistorySampleRef.current >= HISTORY_SAMPLE_MS;
+    if (shouldSample) lastHistorySampleRef.current = now;
+    const currentTime = new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+    setMarketData(prev => {
+      const history = prev?.history ? [...prev.history] : [];
+      const newHistory = shouldSample ? [...history, { time: currentTime, price: ticker.price }].slice(-50) : history;
+      return { ...prev, ...ticker, history: newHistory } as MarketData;
+    });
+    setIsLoading(false);
+  }, []);
+
+  const { status: streamStatus, latencyMs: streamLatency, depth } = useMarketStream(settings.tradingSymbol, applyTicker);
+  // Only a book from an open stream is current enough to show the model.
+  const orderBook = useMemo(() => streamStatus === 'OPEN' && depth ? summarizeBook(depth) : null, [streamStatus, depth]);
+  // Read by the trading cycle through a ref, so depth updates do not recreate it.
+  const orderBookRef = useRef(orderBook);
+  orderBookRef.current = orderBook;
+
   const refreshMarket = useCallback(async () => {
     try {
       const response = await fetch(`/api/market/ticker?symbol=${settings.tradingSymbol}`);
       if (!response.ok) throw new Error('Market API error');
-      const ticker = await response.json();
-      const currentTime = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
-
-      setMarketData(prev => {
-        const history = prev?.history ? [...prev.history] : [];
-        const newHistory = [...history, { time: currentTime, price: ticker.price }].slice(-50);
-        return { ...ticker, history: newHistory };
-      });
-      if (isLoading) setIsLoading(false);
+      applyTicker(await response.json());
     } catch (err) {
-      if (isLoading) setIsLoading(false);
+      setIsLoading(false);
     }
-  }, [settings.tradingSymbol, isLoading]);
+  }, [settings.tradingSymbol, applyTicker]);
 
   const refreshAccountData = useCallback(async () => {
-    if (!settings.mexcApiKey || !settings.mexcSecretKey || !isLoggedIn) {
+    if (!settings.isLiveMode || !mexcCredentialId || !isLoggedIn) {
       setMexcStatus('DISCONNECTED');
       return;
     }
     try {
-      const response = await apiRequest('POST', '/api/mexc/account', {
-        apiKey: settings.mexcApiKey,
-        secretKey: settings.mexcSecretKey,
-        symbol: settings.tradingSymbol
-      });
-      
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(data.error);
-      }
+      // Balances are account-wide, but positions, orders and trades come back per symbol; the risk checks need every bot's.
+      const accounts = await Promise.all(watchlistSymbols.map(async symbol => {
+        const response = await apiRequest('POST', '/api/mexc/account', {
+          credentialId: mexcCredentialId,
+          symbol
+        });
+        const data = await response.json();
+        if (data.error) {
+          throw new Error(data.error);
+        }
+        return data;
+      }));
+      const data = accounts[watchlistSymbols.indexOf(settings.tradingSymbol)] ?? accounts[0];
       
       setSpotBalances(data.spotBalances || []);
       setFuturesBalances(data.futuresBalances || []);
-      setMexcPositions(data.positions || []);
-      setMexcOrders(data.orders || []);
-      setMexcTrades(data.trades || []);
+      setMexcPositions(accounts.flatMap(a => a.positions || []));
+      setMexcOrders(accounts.flatMap(a => a.orders || []));
+      setMexcTrades(accounts.flatMap(a => a.trades || []));
       setMexcStatus('CONNECTED');
       addLog('SUCCESS', 'MEXC account synced successfully');
     } catch (e: any) {
       addLog('ERROR', `MEXC sync error: ${e.message}`);
       setMexcStatus('ERROR');
     }
-  }, [settings, isLoggedIn, addLog]);
+  }, [settings.isLiveMode, settings.tradingSymbol, watchlistSymbols.join(','), mexcCredentialId, isLoggedIn, addLog]);
 
   const runTradingCycle = useCallback(async () => {
-    if (!settings.isAutoTrading || !marketData) return;
+    if (!marketData) return;
     try {
       setIsAnalyzing(true);
-      
-      const response = await apiRequest('POST', '/api/ai/analyze', {
-        settings: {
-          aiProvider: settings.aiProvider,
-          geminiApiKey: settings.geminiApiKey,
-          openaiApiKey: settings.openaiApiKey,
-          deepseekApiKey: settings.deepseekApiKey,
-          tradingSymbol: settings.tradingSymbol,
-          defaultLeverage: settings.defaultLeverage
-        },
-        marketData,
-        currentPositionSide: mexcPositions.length > 0 ? mexcPositions[0].side : 'NONE'
+
+      // Same cache entry as the chart, so the overlays show exactly what the model was given.
+      const candles = await queryClient.fetchQuery({
+        queryKey: ['/api/market/klines', settings.tradingSymbol, settings.indicatorInterval],
+        queryFn: () => fetchKlines(settings.tradingSymbol, settings.indicatorInterval, KLINE_LIMIT),
+        staleTime: 15000
       });
-      
-      const decision = await response.json();
+      const positionSide = mexcPositions.find(p => p.symbol === settings.tradingSymbol)?.side ?? 'NONE';
+      const indicators = candles.length > 0 ? computeIndicators(candles, settings.indicatorInterval) : undefined;
+      const orderBookSnapshot = orderBookRef.current ?? undefined;
+      const prompt = renderPrompt(activeProfile, {
+        symbol: settings.tradingSymbol,
+        price: marketData.price,
+        indicators,
+        orderBook: orderBookSnapshot,
+        positionSide,
+        balance: getAvailableMargin(futuresBalances)
+      });
+      const journalContext: JournalContext = {
+        source: 'MANUAL',
+        symbol: settings.tradingSymbol,
+        marketData,
+        indicators,
+        orderBook: orderBookSnapshot,
+        positionSide,
+        prompt
+      };
+      const startedAt = performance.now();
+      let decision: ConsensusDecision;
+      try {
+        decision = await requestTradeDecision(
+          buildAnalyzeRequest(focusSettings, marketData, positionSide, indicators, prompt, orderBookSnapshot),
+          focusSettings
+        );
+      } catch (err) {
+        const latencyMs = Math.round(performance.now() - startedAt);
+        const message = err instanceof Error ? err.message : 'Unknown';
+        const calls = err instanceof DecisionRejectedError ? [failedCall(focusSettings.aiProvider, message, err.rawOutput, latencyMs)] : [];
+        recordJournal(createJournalEntry(journalContext, { error: message, calls }, latencyMs));
+        throw err;
+      }
+      recordJournal(createJournalEntry(journalContext, { decision }, Math.round(performance.now() - startedAt)));
       setLastAction(decision);
+      decision.consensus?.votes.forEach(vote => {
+        if (vote.rawOutput !== null) addLog('ERROR', `${vote.provider} vote rejected: ${vote.error}`, { symbol: settings.tradingSymbol, payload: vote.rawOutput });
+      });
+      const isGatePassed = passesGates(settings.tradingSymbol, decision, 'MANUAL');
       
       if (decision.action !== 'WAIT') {
-        addLog('TRADE', `AI decision: ${decision.action} (${decision.confidence}%)`);
+        const brackets = resolveBrackets(decision, marketData.price, getBracketConfig(settings), latestAtr(candles));
+        addLog('TRADE', `${settings.tradingSymbol} AI decision: ${decision.action} (${decision.confidence}%)` +
+          (brackets ? ` SL ${brackets.stopLoss.toFixed(2)} / TP ${brackets.takeProfit.toFixed(2)} [${brackets.source}]` : ''),
+          { symbol: settings.tradingSymbol, payload: decision });
         
-        if (settings.isLiveMode) {
-          await apiRequest('POST', '/api/mexc/trade', {
-            action: decision.action,
-            apiKey: settings.mexcApiKey,
-            secretKey: settings.mexcSecretKey,
-            symbol: settings.tradingSymbol,
-            leverage: settings.defaultLeverage,
-            price: marketData.price
-          });
-          refreshAccountData();
+        if (haltState) {
+          addLog('RISK', `Trade skipped: ${haltState.message}`);
+        } else if (isGatePassed) {
+          if (!settings.isLiveMode) {
+            const fill = executePaperDecision(settings.tradingSymbol, decision, brackets, marketData.price);
+            if (fill.fills.length > 0) recordTrade(settings.tradingSymbol, decision.action);
+          } else {
+            const size = brackets ? sizePosition(brackets.stopDistancePercent) : null;
+            if (brackets && !size) {
+              addLog('ERROR', 'Trade skipped: no futures balance to size the position');
+              setIsAnalyzing(false);
+              return;
+            }
+            await apiRequest('POST', '/api/mexc/trade', {
+              action: decision.action,
+              credentialId: mexcCredentialId,
+              symbol: settings.tradingSymbol,
+              leverage: focusSettings.defaultLeverage,
+              price: marketData.price,
+              quantity: size?.quantity,
+              riskPercent: focusSettings.riskPercent,
+              stopLoss: brackets?.stopLoss,
+              takeProfit: brackets?.takeProfit
+            });
+            recordTrade(settings.tradingSymbol, decision.action);
+            refreshAccountData();
+          }
         }
       }
       setIsAnalyzing(false);
     } catch (err) {
-      addLog('ERROR', `AI analysis failed: ${err instanceof Error ? err.message : 'Unknown'}`);
+      if (err instanceof DecisionRejectedError) addLog('ERROR', `AI decision rejected, no trade placed: ${err.message}`, { symbol: settings.tradingSymbol, payload: err.rawOutput });
+      else addLog('ERROR', `AI analysis failed: ${err instanceof Error ? err.message : 'Unknown'}`);
       setIsAnalyzing(false);
     }
-  }, [settings, mexcPositions, marketData, addLog, refreshAccountData]);
+  }, [settings, focusSettings, activeProfile, futuresBalances, mexcCredentialId, mexcPositions, marketData, sizePosition, haltState, addLog, refreshAccountData, executePaperDecision, passesGates, recordTrade, recordJournal]);
 
+  // A mode switch drops the other account's figures and its peak before any risk check can compare them with this one's.
+  useEffect(() => {
+    if (loadedAccount === riskAccount) return;
+    setLoadedAccount(riskAccount);
+    setSpotBalances([]);
+    setFuturesBalances([]);
+    setMexcPositions([]);
+    setMexcOrders([]);
+    setMexcTrades([]);
+    setPeakEquity(loadPeakEquity(riskAccount));
+  }, [riskAccount, loadedAccount]);
+
+  const isAccountLoaded = loadedAccount === riskAccount && futuresBalances.length > 0;
+
+  useEffect(() => {
+    if (!isAccountLoaded) return;
+    if (riskSnapshot.peakEquity > peakEquity) {
+      setPeakEquity(riskSnapshot.peakEquity);
+      savePeakEquity(riskAccount, riskSnapshot.peakEquity);
+    }
+  }, [riskSnapshot.peakEquity, peakEquity, isAccountLoaded, riskAccount]);
+
+  useEffect(() => {
+    if (haltState || !isAccountLoaded || (settings.isLiveMode && mexcStatus !== 'CONNECTED')) return;
+    const breach = checkRiskLimits(riskSnapshot, getRiskLimits(settings));
+    if (breach) haltTrading(breach.reason, breach.message);
+  }, [riskSnapshot, settings, haltState, mexcStatus, haltTrading, isAccountLoaded]);
+
+  useEffect(() => {
+    setMarketData(null);
+    setLastAction(null);
+    setGateBlock(null);
+    lastHistorySampleRef.current = 0;
+  }, [settings.tradingSymbol]);
+
+  // One REST snapshot for the first paint; after that polling only covers gaps in the stream.
   useEffect(() => {
     refreshMarket();
-    const interval = setInterval(refreshMarket, 5000);
-    return () => clearInterval(interval);
   }, [refreshMarket]);
 
   useEffect(() => {
-    if (isLoggedIn && settings.mexcApiKey && settings.mexcSecretKey) {
+    if (streamStatus === 'OPEN') return;
+    const interval = setInterval(refreshMarket, FALLBACK_POLL_MS);
+    return () => clearInterval(interval);
+  }, [refreshMarket, streamStatus]);
+
+  // In Simulation mode the portfolio views are fed from the paper account instead of MEXC.
+  useEffect(() => {
+    if (settings.isLiveMode) return;
+    setSpotBalances([]);
+    setFuturesBalances(getPaperBalances(paperAccount));
+    setMexcPositions(paperAccount.positions);
+    setMexcOrders([]);
+    setMexcTrades(paperAccount.trades);
+  }, [settings.isLiveMode, paperAccount]);
+
+  useEffect(() => {
+    const price = marketData?.price;
+    if (settings.isLiveMode || !price || paperAccountRef.current.positions.length === 0) return;
+    commitPaperFill(markPaperAccount(paperAccountRef.current, settings.tradingSymbol, price, getPaperConfig(settings)));
+  }, [marketData?.price]);
+
+  // Startup report for the settings schema; the local copy is rewritten so later loads are already current.
+  useEffect(() => {
+    const report = migrateStoredSettings();
+    if (report) addLog(report.reset.length > 0 ? 'ERROR' : 'INFO', describeSettingsReport(report), { payload: report });
+  }, []);
+
+  // A layout effect, so the adapter is in place before any passive effect or query below reads or writes through it.
+  useLayoutEffect(() => {
+    const backend = isStoreEnabled ? storageBackend : 'local';
+    setStorage(createStorageAdapter(backend, { url: settings.supabaseUrl, anonKey: settings.supabaseAnonKey }, user?.username ?? ''));
+  }, [storageBackend, isStoreEnabled, settings.supabaseUrl, settings.supabaseAnonKey, user?.username]);
+
+  // The selected backend is the source of truth; one that holds nothing yet is seeded from this browser's copy.
+  useEffect(() => {
+    if (!isStoreEnabled) return;
+    let isCancelled = false;
+    const hydrate = async () => {
+      const [storedSettings, storedAccount, entries] = await Promise.all([
+        loadStoredSettings(loadSettings()), loadStoredPaperAccount(), loadJournal()
+      ]);
+      if (isCancelled) return;
+      if (storedSettings) {
+        setSettings(storedSettings);
+        saveSettings(storedSettings, loadSettingsUpdatedAt() ?? undefined);
+      } else {
+        saveSettings(loadSettings(), loadSettingsUpdatedAt() ?? undefined);
+      }
+      if (storedAccount) {
+        paperAccountRef.current = storedAccount;
+        setPaperAccount(storedAccount);
+        savePaperAccount(storedAccount);
+      } else {
+        savePaperAccount(paperAccountRef.current);
+      }
+      // Bot cycles journaled before the load finished are kept alongside the stored entries.
+      if (entries.length > 0) setJournal(prev => combineJournalEntries(prev, entries));
+      else if (journalRef.current.length > 0) await saveJournalEntries(journalRef.current);
+    };
+    hydrate().catch(err => addLog('ERROR', `Loading from ${storageBackend} storage failed: ${err instanceof Error ? err.message : 'Unknown'}`));
+    return () => {
+      isCancelled = true;
+    };
+  }, [storageBackend, isStoreEnabled]);
+
+  // Journaled calls are scored once their horizons have passed; the journal is read through a ref so new entries don't restart the timer.
+  useEffect(() => {
+    let isCancelled = false;
+    const score = async () => {
+      const scored = await scorePendingEntries(journalRef.current, settings.scoringHorizons);
+      if (isCancelled || scored.length === 0) return;
+      setJournal(prev => mergeJournalEntries(prev, scored));
+      await saveJournalEntries(scored);
+    };
+    const scoreAndReport = () => score()
+      .catch(err => addLog('ERROR', `Saving signal scores failed: ${err instanceof Error ? err.message : 'Unknown'}`));
+    scoreAndReport();
+    const interval = setInterval(scoreAndReport, SCORING_POLL_MS);
+    return () => {
+      isCancelled = true;
+      clearInterval(interval);
+    };
+  }, [settings.scoringHorizons.join(',')]);
+
+  // Symbols out of focus have no stream; their paper positions are marked from the watchlist poll.
+  useEffect(() => {
+    if (settings.isLiveMode || paperAccountRef.current.positions.length === 0) return;
+    const background = tickers.filter(t => t.symbol !== settings.tradingSymbol &&
+      paperAccountRef.current.positions.some(p => p.symbol === t.symbol));
+    if (background.length === 0) return;
+    const marked = background.reduce<PaperFill>((acc, t) => {
+      const next = markPaperAccount(acc.account, t.symbol, t.price, getPaperConfig(settings));
+      return { account: next.account, fills: [...acc.fills, ...next.fills] };
+    }, { account: paperAccountRef.current, fills: [] });
+    commitPaperFill(marked);
+  }, [tickers]);
+
+  useEffect(() => {
+    if (settings.isLiveMode && isLoggedIn && mexcCredentialId) {
       refreshAccountData();
       const interval = setInterval(refreshAccountData, 30000);
       return () => clearInterval(interval);
     }
-  }, [refreshAccountData, isLoggedIn, settings.mexcApiKey, settings.mexcSecretKey]);
+  }, [refreshAccountData, settings.isLiveMode, isLoggedIn, mexcCredentialId]);
 
+  // Once per sign-in and sync target: take the remote settings if they are newer, otherwise publish ours.
   useEffect(() => {
-    let interval: number;
-    if (settings.isAutoTrading) {
-      runTradingCycle();
-      interval = window.setInterval(runTradingCycle, settings.intervalMinutes * 60000);
+    if (!user) {
+      pulledForRef.current = null;
+      return;
     }
-    return () => clearInterval(interval);
-  }, [settings.isAutoTrading, settings.intervalMinutes, runTradingCycle]);
+    const target = `${user.username}@${settings.supabaseUrl}`;
+    if (supabaseStatus !== 'CONNECTED' || pulledForRef.current === target) return;
+    pulledForRef.current = target;
+    const localUpdatedAt = loadSettingsUpdatedAt();
+    pullRemoteSettings(localUpdatedAt).then(result => {
+      if (result?.kind === 'REMOTE_NEWER') {
+        const remoteTime = new Date(result.updatedAt).toLocaleString();
+        // Read at resolution time, so edits made while the request was in flight count too.
+        const current = settingsRef.current;
+        if (hasUnsavedChanges(current)) {
+          addLog('INFO', `Cloud settings from ${remoteTime} are newer but were not applied over unsaved edits. Save to publish yours, or reload to take the cloud copy.`);
+          return;
+        }
+        const next = keepDeviceLocal(result.settings, current);
+        setSettings(next);
+        saveSettings(next, result.updatedAt);
+        addLog('INFO', `Settings pulled from cloud (remote copy from ${remoteTime} is newer)`);
+      } else if (result?.kind === 'LOCAL_NEWER' && localUpdatedAt) {
+        pushSettingsToCloud(loadSettings(), localUpdatedAt);
+      }
+    }).catch(err => addLog('ERROR', `Cloud settings pull failed: ${err instanceof Error ? err.message : 'Unknown'}`));
+  }, [user?.username, supabaseStatus, settings.supabaseUrl]);
+
+  // Move plaintext keys left in localStorage by older builds into the vault. Each kind is dropped only once the vault
+  // has it; a failed store keeps the key for the next sign-in rather than losing it.
+  useEffect(() => {
+    if (!isLoggedIn) {
+      isMigratingKeysRef.current = false;
+      return;
+    }
+    if (isMigratingKeysRef.current) return;
+    const legacy = getLegacySecrets(settings);
+    const kinds = Object.keys(legacy) as CredentialKind[];
+    if (kinds.length === 0) return;
+    isMigratingKeysRef.current = true;
+    const migrate = async () => {
+      for (const kind of kinds) {
+        if (!(await storeCredential(kind, legacy[kind]!))) continue;
+        setSettings(s => {
+          const cleared = clearLegacySecrets(s, kind);
+          saveSettings(cleared);
+          return cleared;
+        });
+      }
+    };
+    migrate();
+  }, [isLoggedIn, settings, storeCredential]);
+
+  // The scheduled cycle runs on the server; mirror its latest decision into the signal card.
+  useEffect(() => {
+    if (botStatus?.lastDecision) setLastAction(botStatus.lastDecision);
+  }, [botStatus?.lastDecision]);
+
+  // Server decisions only place real orders in live mode; in Simulation the paper exchange fills them here.
+  useEffect(() => {
+    bots.forEach(bot => {
+      const isFirstStatus = !(bot.symbol in seenDecisionAtRef.current);
+      const isNew = seenDecisionAtRef.current[bot.symbol] !== bot.lastDecisionAt;
+      seenDecisionAtRef.current[bot.symbol] = bot.lastDecisionAt;
+      if (isFirstStatus || !isNew || !bot.lastDecision) return;
+      const check = checkTradeAction(bot.lastDecision);
+      // Schedulers without cycle traces only report the parsed decision, so that is all their entries carry.
+      if (!bot.recentCycles) {
+        const at = bot.lastDecisionAt ? new Date(bot.lastDecisionAt) : new Date();
+        const journalContext: JournalContext = { source: 'BOT', symbol: bot.symbol, marketData: null, positionSide: null };
+        recordJournal('issues' in check
+          ? createJournalEntry(journalContext, { error: check.issues.join('; '), calls: [] }, null, at)
+          : createJournalEntry(journalContext, { decision: check.decision }, null, at));
+      }
+      // Live orders are placed by the server, which applies the same gates from `BotConfig.gates` before ordering.
+      if (settings.isLiveMode || haltState) return;
+      if ('issues' in check) {
+        addLog('ERROR', `[SIM] ${bot.symbol} bot decision rejected: ${check.issues.join('; ')}`, { symbol: bot.symbol, botId: bot.symbol, payload: bot.lastDecision });
+        return;
+      }
+      const { decision } = check;
+      if (!passesGates(bot.symbol, decision, 'BOT') || decision.action === 'WAIT') return;
+      const isFocused = bot.symbol === settings.tradingSymbol;
+      const price = isFocused ? marketData?.price : tickers.find(t => t.symbol === bot.symbol)?.price;
+      if (!price) {
+        addLog('ERROR', `[SIM] ${bot.symbol} decision skipped: no price`, { symbol: bot.symbol, botId: bot.symbol });
+        return;
+      }
+      const symbolAtr = isFocused ? atr : null;
+      const brackets = resolveBrackets(decision, price, getBracketConfig(settings), symbolAtr);
+      const fill = executePaperDecision(bot.symbol, decision, brackets, price);
+      if (fill.fills.length > 0) recordTrade(bot.symbol, decision.action);
+    });
+  }, [bots.map(b => `${b.symbol}:${b.lastDecisionAt}`).join('|')]);
+
+  // Traced cycles are journaled on every status, first one included, so cycles that ran while no tab was polling are not lost.
+  useEffect(() => {
+    const known = new Set(journalRef.current.map(e => e.id));
+    bots.forEach(bot => {
+      bot.recentCycles?.forEach(cycle => {
+        const entry = createBotJournalEntry(bot.symbol, cycle);
+        if (!known.has(entry.id)) recordJournal(entry);
+      });
+    });
+  }, [bots.map(b => `${b.symbol}:${b.recentCycles?.[0]?.timestamp}`).join('|')]);
+
+  useEffect(() => {
+    bots.forEach(bot => {
+      if (bot.lastError && seenErrorRef.current[bot.symbol] !== bot.lastError) {
+        addLog('ERROR', `${bot.symbol} bot: ${bot.lastError}`, { symbol: bot.symbol, botId: bot.symbol });
+      }
+      seenErrorRef.current[bot.symbol] = bot.lastError;
+    });
+  }, [bots, addLog]);
+
+  if (isAuthLoading) {
+    return (
+      <div className="h-screen bg-background flex flex-col items-center justify-center" data-testid="auth-loading-screen">
+        <div className="w-12 h-12 border-4 border-primary/30 border-t-primary rounded-full animate-spin mb-4"></div>
+        <p className="text-sm font-medium text-muted-foreground">Checking session...</p>
+      </div>
+    );
+  }
 
   if (!isLoggedIn) {
     return (
@@ -252,7 +981,9 @@ export default function TradingDashboard() {
               />
             </div>
             {loginError && <p className="text-destructive text-xs text-center" data-testid="text-login-error">{loginError}</p>}
-            <Button type="submit" className="w-full" data-testid="button-login">Sign In</Button>
+            <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+              {loginMutation.isPending ? 'Signing In...' : 'Sign In'}
+            </Button>
           </form>
         </Card>
       </div>
@@ -271,6 +1002,8 @@ export default function TradingDashboard() {
   const navItems = [
     { id: 'DASHBOARD' as ViewType, icon: Activity, label: 'Overview' },
     { id: 'PORTFOLIO' as ViewType, icon: Wallet, label: 'Portfolio' },
+    { id: 'BACKTEST' as ViewType, icon: FlaskConical, label: 'Backtest' },
+    { id: 'JOURNAL' as ViewType, icon: BookOpen, label: 'Decision Journal' },
     { id: 'SETTINGS' as ViewType, icon: Settings, label: 'Bot Config' },
     { id: 'CLOUD' as ViewType, icon: Cloud, label: 'Sync Status' },
     { id: 'LOGS' as ViewType, icon: List, label: 'Activity Logs' }
@@ -304,28 +1037,54 @@ export default function TradingDashboard() {
         </nav>
 
         <div className="p-4 border-t border-sidebar-border space-y-4">
-          <Card className={`p-4 ${settings.isAutoTrading ? 'border-green-500/20 bg-green-500/5' : ''}`}>
+          <Card className={`p-4 ${isBotRunning ? 'border-green-500/20 bg-green-500/5' : ''}`}>
             <div className="flex items-center justify-between mb-3">
-              <span className="text-xs font-bold text-muted-foreground uppercase">Auto Mode</span>
-              <div className={`w-2 h-2 rounded-full ${settings.isAutoTrading ? 'bg-green-500 animate-pulse' : 'bg-destructive'}`}></div>
+              <span className="text-xs font-bold text-muted-foreground uppercase">Auto Mode · {settings.tradingSymbol}</span>
+              <div className={`w-2 h-2 rounded-full ${isBotRunning ? 'bg-green-500 animate-pulse' : 'bg-destructive'}`}></div>
+            </div>
+            <div className="space-y-1 mb-3 text-[10px] text-muted-foreground" data-testid="bot-monitor">
+              <div className="flex justify-between">
+                <span>Heartbeat</span>
+                <span className="font-mono" data-testid="text-bot-heartbeat">
+                  {botStatus?.lastHeartbeat ? new Date(botStatus.lastHeartbeat).toLocaleTimeString() : '--'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Next Run</span>
+                <span className="font-mono" data-testid="text-bot-next-run">
+                  {isBotRunning && botStatus?.nextRunAt ? new Date(botStatus.nextRunAt).toLocaleTimeString() : '--'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Running Bots</span>
+                <span className="font-mono" data-testid="text-running-bots">{runningBots.length}</span>
+              </div>
             </div>
             <Button 
-              onClick={() => {
-                const updated = { ...settings, isAutoTrading: !settings.isAutoTrading };
-                setSettings(updated);
-                localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-              }}
-              variant={settings.isAutoTrading ? 'destructive' : 'default'}
+              onClick={() => toggleBot(settings.tradingSymbol)}
+              disabled={startMutation.isPending || stopMutation.isPending || (!isBotRunning && !!haltState)}
+              variant={isBotRunning ? 'destructive' : 'default'}
               className="w-full"
               size="sm"
               data-testid="button-toggle-autotrading"
             >
-              {settings.isAutoTrading ? <><Square className="w-3 h-3 mr-2" /> Stop Bot</> : <><Play className="w-3 h-3 mr-2" /> Start Bot</>}
+              {isBotRunning ? <><Square className="w-3 h-3 mr-2" /> Stop Bot</> : <><Play className="w-3 h-3 mr-2" /> Start Bot</>}
+            </Button>
+            <Button
+              onClick={() => haltTrading('MANUAL', 'Kill switch engaged')}
+              disabled={!!haltState}
+              variant="outline"
+              className="w-full mt-2 text-destructive"
+              size="sm"
+              data-testid="button-kill-switch"
+            >
+              <OctagonX className="w-3 h-3 mr-2" /> Kill Switch
             </Button>
           </Card>
           <Button 
             variant="ghost" 
-            onClick={() => setIsLoggedIn(false)} 
+            onClick={handleLogout} 
+            disabled={logoutMutation.isPending}
             className="w-full text-muted-foreground"
             size="sm"
             data-testid="button-logout"
@@ -348,6 +1107,9 @@ export default function TradingDashboard() {
               <Badge variant={mexcStatus === 'CONNECTED' ? 'default' : 'destructive'} className="text-[10px]" data-testid="badge-mexc-status">
                 MEXC: {mexcStatus}
               </Badge>
+              <Badge variant={streamBadgeVariant[streamStatus]} className="text-[10px]" data-testid="badge-stream-status">
+                Stream: {streamStatus}{streamStatus === 'OPEN' && streamLatency !== null ? ` ${streamLatency}ms` : ''}
+              </Badge>
             </div>
           </div>
           <div className="flex items-center gap-6">
@@ -363,9 +1125,38 @@ export default function TradingDashboard() {
           </div>
         </header>
 
+        {haltState && (
+          <div className="px-8 py-3 bg-destructive text-destructive-foreground flex items-center justify-between gap-4" data-testid="banner-halted">
+            <div className="flex items-center gap-3 min-w-0">
+              <OctagonX className="w-5 h-5 shrink-0" />
+              <span className="font-black tracking-widest">HALTED</span>
+              <span className="text-xs truncate" data-testid="text-halt-reason">
+                {haltState.message} · {new Date(haltState.haltedAt).toLocaleString()}
+              </span>
+            </div>
+            <Button variant="secondary" size="sm" onClick={resetHalt} data-testid="button-reset-halt">
+              Reset
+            </Button>
+          </div>
+        )}
+
         <div className="flex-1 overflow-y-auto p-8">
           {view === 'DASHBOARD' && (
             <div className="grid grid-cols-12 gap-8 max-w-7xl" data-testid="view-dashboard">
+              <div className="col-span-12">
+                <Watchlist
+                  entries={watchlist}
+                  tickers={tickers}
+                  bots={bots}
+                  focusedSymbol={settings.tradingSymbol}
+                  isBusy={startMutation.isPending || stopMutation.isPending}
+                  isHalted={!!haltState}
+                  onFocus={focusSymbol}
+                  onToggleBot={toggleBot}
+                  onAdd={addWatchlistSymbol}
+                  onRemove={removeWatchlistSymbol}
+                />
+              </div>
               <Card className="col-span-12 lg:col-span-8 p-6">
                 <div className="flex items-center justify-between mb-6">
                   <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-wider">
@@ -380,45 +1171,27 @@ export default function TradingDashboard() {
                     )}
                   </div>
                 </div>
-                <div className="h-[300px] w-full">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={marketData?.history || []}>
-                      <defs>
-                        <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.2}/>
-                          <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0}/>
-                        </linearGradient>
-                      </defs>
-                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" opacity={0.5} />
-                      <XAxis dataKey="time" hide />
-                      <YAxis domain={['auto', 'auto']} hide />
-                      <Tooltip 
-                        contentStyle={{ 
-                          backgroundColor: 'hsl(var(--card))', 
-                          border: '1px solid hsl(var(--border))', 
-                          borderRadius: '8px',
-                          color: 'hsl(var(--foreground))'
-                        }} 
-                      />
-                      <Area 
-                        type="monotone" 
-                        dataKey="price" 
-                        stroke="hsl(var(--primary))" 
-                        fillOpacity={1} 
-                        fill="url(#colorPrice)" 
-                        strokeWidth={2} 
-                        isAnimationActive={false} 
-                      />
-                    </AreaChart>
-                  </ResponsiveContainer>
-                </div>
+                <CandlestickChart symbol={settings.tradingSymbol} livePrice={marketData?.price} defaultInterval={settings.indicatorInterval} />
               </Card>
 
               <div className="col-span-12 lg:col-span-4 flex flex-col gap-8">
                 <Card className="p-6 flex-1">
                   <div className="flex items-center justify-between mb-6">
                     <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-wider">AI Signal</h3>
-                    {isAnalyzing && <RefreshCw className="w-4 h-4 animate-spin text-primary" />}
+                    {isAnalyzing ? (
+                      <RefreshCw className="w-4 h-4 animate-spin text-primary" />
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={runTradingCycle}
+                        disabled={!marketData}
+                        className="text-xs text-muted-foreground"
+                        data-testid="button-run-cycle"
+                      >
+                        Run Once
+                      </Button>
+                    )}
                   </div>
                   {!lastAction ? (
                     <div className="h-full flex flex-col items-center justify-center text-center py-12">
@@ -439,11 +1212,83 @@ export default function TradingDashboard() {
                           Confidence: {lastAction.confidence}%
                         </p>
                       </div>
+                      {gateBlock && (
+                        <p className="text-[10px] font-bold text-chart-3 uppercase text-center" data-testid="text-gate-block">
+                          Not executed · {gateBlock}
+                        </p>
+                      )}
                       <Card className="p-4 bg-muted/50">
                         <p className="text-xs text-muted-foreground leading-relaxed italic">
                           "{lastAction.reason}"
                         </p>
                       </Card>
+                      {lastAction.consensus && (
+                        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${lastAction.consensus.votes.length}, minmax(0, 1fr))` }} data-testid="consensus-votes">
+                          {lastAction.consensus.votes.map(vote => (
+                            <div key={vote.provider} className="p-2 rounded-md border border-border text-[10px] space-y-1" data-testid={`vote-${vote.provider}`}>
+                              <div className="flex justify-between gap-1">
+                                <span className="font-bold uppercase text-muted-foreground truncate">{vote.provider}</span>
+                                <span className="font-mono text-muted-foreground">{vote.latencyMs}ms</span>
+                              </div>
+                              {vote.decision ? (
+                                <>
+                                  <p className={`font-black text-sm ${
+                                    vote.decision.action === 'LONG' ? 'text-green-500' :
+                                    vote.decision.action === 'SHORT' ? 'text-destructive' : 'text-muted-foreground'
+                                  }`}>
+                                    {vote.decision.action} <span className="font-mono text-[10px] opacity-60">{vote.decision.confidence}%</span>
+                                  </p>
+                                  <p className="text-muted-foreground leading-snug line-clamp-4" title={vote.decision.reason}>{vote.decision.reason}</p>
+                                </>
+                              ) : (
+                                <p className="text-destructive leading-snug line-clamp-4" title={vote.error ?? ''}>{vote.error}</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {lastAction.action !== 'WAIT' && (
+                        <div className="space-y-2 text-xs" data-testid="position-size">
+                          <div className="flex justify-between items-center">
+                            <span className="text-muted-foreground">Order Size</span>
+                            <span className="font-bold font-mono" data-testid="text-position-size">
+                              {positionSize ? formatQuantity(positionSize.quantity) : '--'}
+                            </span>
+                          </div>
+                          {signalBrackets && (
+                            <>
+                              <div className="flex justify-between items-center">
+                                <span className="text-muted-foreground">Stop Loss</span>
+                                <span className="font-mono text-destructive" data-testid="text-signal-stop-loss">
+                                  {signalBrackets.stopLoss.toFixed(2)}
+                                </span>
+                              </div>
+                              <div className="flex justify-between items-center">
+                                <span className="text-muted-foreground">Take Profit</span>
+                                <span className="font-mono text-green-500" data-testid="text-signal-take-profit">
+                                  {signalBrackets.takeProfit.toFixed(2)}
+                                  <span className="text-muted-foreground ml-1 uppercase text-[10px]">({signalBrackets.source})</span>
+                                </span>
+                              </div>
+                            </>
+                          )}
+                          {positionSize && (
+                            <>
+                              <div className="flex justify-between items-center">
+                                <span className="text-muted-foreground">Notional / Margin</span>
+                                <span className="font-mono">${positionSize.notional.toFixed(2)} / ${positionSize.margin.toFixed(2)}</span>
+                              </div>
+                              <div className="flex justify-between items-center">
+                                <span className="text-muted-foreground">Risk at Stop</span>
+                                <span className="font-mono">
+                                  ${positionSize.riskAmount.toFixed(2)}
+                                  {positionSize.isCapped && <span className="text-chart-4 ml-1">(capped)</span>}
+                                </span>
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
                 </Card>
@@ -459,20 +1304,61 @@ export default function TradingDashboard() {
                     </div>
                     <div className="flex justify-between items-center text-xs">
                       <span className="text-muted-foreground">Leverage</span>
-                      <span className="font-bold">{settings.defaultLeverage}x</span>
+                      <span className="font-bold">{focusSettings.defaultLeverage}x</span>
                     </div>
                     <div className="flex justify-between items-center text-xs">
                       <span className="text-muted-foreground">Pulse</span>
-                      <span className="font-bold">{settings.intervalMinutes}m</span>
+                      <span className="font-bold">{focusSettings.intervalMinutes}m</span>
+                    </div>
+                    <div className="flex justify-between items-center text-xs">
+                      <span className="text-muted-foreground">Strategy</span>
+                      <span className="font-bold" data-testid="text-active-strategy">
+                        {activeProfile.name} v{getLatestVersion(activeProfile).version}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center text-xs">
+                      <span className="text-muted-foreground">Daily PnL</span>
+                      <span className={`font-bold font-mono ${riskSnapshot.dailyPnl >= 0 ? 'text-green-500' : 'text-destructive'}`} data-testid="text-daily-pnl">
+                        {riskSnapshot.dailyPnl >= 0 ? '+' : ''}{riskSnapshot.dailyPnl.toFixed(2)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center text-xs">
+                      <span className="text-muted-foreground">Drawdown</span>
+                      <span className="font-bold font-mono" data-testid="text-drawdown">
+                        {riskSnapshot.drawdownPercent.toFixed(2)}%
+                      </span>
                     </div>
                   </div>
                 </Card>
               </div>
+
+              <div className="col-span-12">
+                <OrderBookPanel symbol={settings.tradingSymbol} depth={depth} summary={orderBook} status={streamStatus} />
+              </div>
             </div>
           )}
 
           {view === 'PORTFOLIO' && (
             <div className="max-w-7xl space-y-6" data-testid="view-portfolio">
+              {!settings.isLiveMode && (
+                <Card className="p-4 flex items-center justify-between gap-4 flex-wrap" data-testid="paper-account">
+                  <div className="flex items-center gap-3">
+                    <Badge variant="secondary" className="text-[10px] uppercase">Paper Account</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      Simulated fills at the live ticker with {settings.paperFeePercent}% fee and {settings.paperSlippagePercent}% slippage
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className={`text-sm font-bold font-mono ${riskSnapshot.equity - paperAccount.startingBalance >= 0 ? 'text-green-500' : 'text-destructive'}`} data-testid="text-paper-return">
+                      {riskSnapshot.equity - paperAccount.startingBalance >= 0 ? '+' : ''}
+                      {(riskSnapshot.equity - paperAccount.startingBalance).toFixed(2)} USDT
+                    </span>
+                    <Button variant="outline" size="sm" onClick={resetPaperAccount} data-testid="button-reset-paper">
+                      Reset
+                    </Button>
+                  </div>
+                </Card>
+              )}
               <Tabs value={accountSubView} onValueChange={(v) => setAccountSubView(v as AccountSubView)}>
                 <TabsList className="mb-8">
                   {(['BALANCES', 'POSITIONS', 'ORDERS', 'HISTORY'] as const).map(tab => (
@@ -532,6 +1418,8 @@ export default function TradingDashboard() {
                           <th className="px-6 py-4">Leverage</th>
                           <th className="px-6 py-4">Entry</th>
                           <th className="px-6 py-4">Current</th>
+                          <th className="px-6 py-4">Stop Loss</th>
+                          <th className="px-6 py-4">Take Profit</th>
                           <th className="px-6 py-4">PnL (USDT)</th>
                         </tr>
                       </thead>
@@ -545,6 +1433,26 @@ export default function TradingDashboard() {
                             <td className="px-6 py-4 text-muted-foreground">{pos.leverage}x</td>
                             <td className="px-6 py-4 font-mono text-xs">{pos.entryPrice}</td>
                             <td className="px-6 py-4 font-mono text-xs">{pos.currentPrice}</td>
+                            <td className="px-6 py-4 font-mono text-xs" data-testid={`text-position-sl-${pos.id}`}>
+                              {pos.stopLoss ? (
+                                <>
+                                  {pos.stopLoss}
+                                  <span className="block text-[10px] text-destructive">
+                                    {distancePercent(pos.currentPrice, pos.stopLoss).toFixed(2)}%
+                                  </span>
+                                </>
+                              ) : <span className="text-muted-foreground">--</span>}
+                            </td>
+                            <td className="px-6 py-4 font-mono text-xs" data-testid={`text-position-tp-${pos.id}`}>
+                              {pos.takeProfit ? (
+                                <>
+                                  {pos.takeProfit}
+                                  <span className="block text-[10px] text-green-500">
+                                    {distancePercent(pos.currentPrice, pos.takeProfit).toFixed(2)}%
+                                  </span>
+                                </>
+                              ) : <span className="text-muted-foreground">--</span>}
+                            </td>
                             <td className={`px-6 py-4 font-bold ${pos.pnl >= 0 ? 'text-green-500' : 'text-destructive'}`}>
                               {pos.pnl >= 0 ? '+' : ''}{pos.pnl.toFixed(2)}
                             </td>
@@ -552,7 +1460,7 @@ export default function TradingDashboard() {
                         ))}
                         {mexcPositions.length === 0 && (
                           <tr>
-                            <td colSpan={6} className="px-6 py-12 text-center text-muted-foreground italic">
+                            <td colSpan={8} className="px-6 py-12 text-center text-muted-foreground italic">
                               No active positions.
                             </td>
                           </tr>
@@ -645,6 +1553,15 @@ export default function TradingDashboard() {
             </div>
           )}
 
+          {view === 'BACKTEST' && <BacktestView settings={settings} />}
+
+          {view === 'JOURNAL' && (
+            <div className="max-w-7xl space-y-10" data-testid="view-journal">
+              <SignalScoreboard entries={journal} horizons={settings.scoringHorizons} />
+              <DecisionJournal entries={journal} onClear={clearJournal} />
+            </div>
+          )}
+
           {view === 'SETTINGS' && (
             <div className="max-w-4xl space-y-8 pb-20" data-testid="view-settings">
               <Card className="p-8">
@@ -656,6 +1573,19 @@ export default function TradingDashboard() {
                   </div>
                 </div>
 
+                <div className="mb-10 pb-10 border-b border-border">
+                  <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-3 tracking-widest">
+                    Presets
+                  </label>
+                  <SettingsPresets
+                    settings={settings}
+                    userPresets={userPresets}
+                    onApply={handleApplyPreset}
+                    onCreate={name => updateUserPresets([...userPresets, createPreset(name, settings)])}
+                    onDelete={id => updateUserPresets(userPresets.filter(p => p.id !== id))}
+                  />
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
                   <div className="space-y-6">
                     <div>
@@ -663,30 +1593,73 @@ export default function TradingDashboard() {
                         AI Intelligence
                       </label>
                       <Select 
-                        value={settings.aiProvider} 
-                        onValueChange={(v) => setSettings(s => ({ ...s, aiProvider: v as AIProvider }))}
+                        value={settings.aiMode === 'consensus' ? 'consensus' : settings.aiProvider} 
+                        onValueChange={(v) => setSettings(s => v === 'consensus'
+                          ? { ...s, aiMode: 'consensus' }
+                          : { ...s, aiMode: 'single', aiProvider: v as ProviderId })}
                       >
                         <SelectTrigger data-testid="select-ai-provider">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="gemini">Gemini Pro</SelectItem>
-                          <SelectItem value="openai">OpenAI GPT-4</SelectItem>
-                          <SelectItem value="deepseek">DeepSeek V3</SelectItem>
+                          {AI_PROVIDERS.map(p => <SelectItem key={p} value={p}>{PROVIDER_LABELS[p]}</SelectItem>)}
+                          <SelectItem value="consensus">Consensus (all configured)</SelectItem>
                         </SelectContent>
                       </Select>
-                      <Input 
-                        type="password" 
-                        placeholder="AI API Key" 
-                        className="mt-3 font-mono"
-                        value={settings.aiProvider === 'gemini' ? settings.geminiApiKey : settings.aiProvider === 'openai' ? settings.openaiApiKey : settings.deepseekApiKey} 
-                        onChange={e => setSettings(s => ({ ...s, 
-                          geminiApiKey: s.aiProvider === 'gemini' ? e.target.value : s.geminiApiKey,
-                          openaiApiKey: s.aiProvider === 'openai' ? e.target.value : s.openaiApiKey,
-                          deepseekApiKey: s.aiProvider === 'deepseek' ? e.target.value : s.deepseekApiKey
-                        }))}
-                        data-testid="input-ai-api-key"
-                      />
+                      {settings.aiMode === 'consensus' ? (
+                        <div className="space-y-4 mt-4">
+                          <Select
+                            value={settings.consensusRule}
+                            onValueChange={(v) => setSettings(s => ({ ...s, consensusRule: v as ConsensusRule }))}
+                          >
+                            <SelectTrigger data-testid="select-consensus-rule">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="unanimous">Unanimous</SelectItem>
+                              <SelectItem value="majority">Majority</SelectItem>
+                              <SelectItem value="weighted">Confidence-weighted</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {AI_PROVIDERS.map(p => (
+                            <div key={p}>
+                              <span className="block text-[10px] font-bold text-muted-foreground uppercase">{PROVIDER_LABELS[p]}</span>
+                              {p === 'custom' && (
+                                <CustomProviderFields
+                                  config={settings.customProvider}
+                                  onChange={customProvider => setSettings(s => ({ ...s, customProvider }))}
+                                />
+                              )}
+                              <CredentialField
+                                testId={`ai-api-key-${p}`}
+                                fields={[{ name: 'apiKey', placeholder: p === 'custom' ? 'API Key (optional)' : `${PROVIDER_LABELS[p]} API Key` }]}
+                                credential={credentials.find(c => c.id === settings.credentialIds[p])}
+                                isPending={storeMutation.isPending}
+                                onStore={secrets => storeCredential(p, secrets)}
+                                onRevoke={id => revokeCredential(p, id)}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <>
+                          {settings.aiProvider === 'custom' && (
+                            <CustomProviderFields
+                              config={settings.customProvider}
+                              onChange={customProvider => setSettings(s => ({ ...s, customProvider }))}
+                            />
+                          )}
+                          <CredentialField
+                            key={settings.aiProvider}
+                            testId="ai-api-key"
+                            fields={[{ name: 'apiKey', placeholder: settings.aiProvider === 'custom' ? 'API Key (optional)' : 'AI API Key' }]}
+                            credential={credentials.find(c => c.id === aiCredentialId)}
+                            isPending={storeMutation.isPending}
+                            onStore={secrets => storeCredential(settings.aiProvider, secrets)}
+                            onRevoke={id => revokeCredential(settings.aiProvider, id)}
+                          />
+                        </>
+                      )}
                     </div>
                   </div>
 
@@ -707,23 +1680,58 @@ export default function TradingDashboard() {
                           <SelectItem value="live">Live Trading Mode</SelectItem>
                         </SelectContent>
                       </Select>
-                      <Input 
-                        type="password" 
-                        placeholder="MEXC API Key" 
-                        value={settings.mexcApiKey} 
-                        onChange={e => setSettings(s => ({ ...s, mexcApiKey: e.target.value }))} 
-                        className="mt-3 font-mono"
-                        data-testid="input-mexc-api-key"
-                      />
-                      <Input 
-                        type="password" 
-                        placeholder="MEXC Secret Key" 
-                        value={settings.mexcSecretKey} 
-                        onChange={e => setSettings(s => ({ ...s, mexcSecretKey: e.target.value }))} 
-                        className="mt-3 font-mono"
-                        data-testid="input-mexc-secret-key"
+                      <CredentialField
+                        testId="mexc"
+                        fields={[
+                          { name: 'apiKey', placeholder: 'MEXC API Key' },
+                          { name: 'secretKey', placeholder: 'MEXC Secret Key' }
+                        ]}
+                        credential={credentials.find(c => c.id === mexcCredentialId)}
+                        isPending={storeMutation.isPending}
+                        onStore={secrets => storeCredential('mexc', secrets)}
+                        onRevoke={id => revokeCredential('mexc', id)}
                       />
                     </div>
+
+                    {!settings.isLiveMode && (
+                      <div className="grid grid-cols-3 gap-4">
+                        <div>
+                          <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Paper USDT</label>
+                          <Input 
+                            type="number" 
+                            min="1" 
+                            value={settings.paperStartingBalance} 
+                            onChange={e => setSettings(s => ({ ...s, paperStartingBalance: Math.max(1, parseFloat(e.target.value) || 1) }))} 
+                            className="font-bold text-center"
+                            data-testid="input-paper-balance"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Fee %</label>
+                          <Input 
+                            type="number" 
+                            min="0" 
+                            step="0.01"
+                            value={settings.paperFeePercent} 
+                            onChange={e => setSettings(s => ({ ...s, paperFeePercent: Math.max(0, parseFloat(e.target.value) || 0) }))} 
+                            className="font-bold text-center"
+                            data-testid="input-paper-fee"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Slippage %</label>
+                          <Input 
+                            type="number" 
+                            min="0" 
+                            step="0.01"
+                            value={settings.paperSlippagePercent} 
+                            onChange={e => setSettings(s => ({ ...s, paperSlippagePercent: Math.max(0, parseFloat(e.target.value) || 0) }))} 
+                            className="font-bold text-center"
+                            data-testid="input-paper-slippage"
+                          />
+                        </div>
+                      </div>
+                    )}
                     
                     <div className="grid grid-cols-2 gap-4">
                       <div>
@@ -748,6 +1756,21 @@ export default function TradingDashboard() {
                       </div>
                     </div>
 
+                    <div>
+                      <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Indicator Timeframe</label>
+                      <Select
+                        value={settings.indicatorInterval}
+                        onValueChange={(v) => setSettings(s => ({ ...s, indicatorInterval: v as KlineInterval }))}
+                      >
+                        <SelectTrigger data-testid="select-indicator-interval">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {KLINE_INTERVALS.map(i => <SelectItem key={i} value={i}>{i}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <div className="grid grid-cols-2 gap-4">
                       <div>
                         <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Leverage</label>
@@ -763,25 +1786,289 @@ export default function TradingDashboard() {
                       </div>
                       <div>
                         <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Risk %</label>
+                        <ClampedNumberInput
+                          value={settings.riskPercent}
+                          {...RISK_PERCENT_LIMITS}
+                          onChange={v => v !== undefined && setSettings(s => ({ ...s, riskPercent: v }))}
+                          className="font-bold text-center"
+                          testId="input-risk-percent"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Stop Loss %</label>
                         <Input 
                           type="number" 
-                          min="1" 
-                          max="100"
-                          value={settings.riskPercent} 
-                          onChange={e => setSettings(s => ({ ...s, riskPercent: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) }))} 
+                          min="0.1" 
+                          max="50"
+                          step="0.1"
+                          value={settings.stopDistancePercent} 
+                          onChange={e => setSettings(s => ({ ...s, stopDistancePercent: Math.min(50, Math.max(0.1, parseFloat(e.target.value) || 0.1)) }))} 
+                          className="font-bold text-center"
+                          data-testid="input-stop-distance"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Take Profit %</label>
+                        <Input 
+                          type="number" 
+                          min="0.1" 
+                          max="500"
+                          step="0.1"
+                          value={settings.takeProfitPercent} 
+                          onChange={e => setSettings(s => ({ ...s, takeProfitPercent: Math.min(500, Math.max(0.1, parseFloat(e.target.value) || 0.1)) }))} 
                           className="font-bold text-center"
-                          data-testid="input-risk-percent"
+                          data-testid="input-take-profit"
                         />
                       </div>
                     </div>
+
+                    <div>
+                      <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Bracket Fallback</label>
+                      <Select 
+                        value={settings.bracketMode} 
+                        onValueChange={(v) => setSettings(s => ({ ...s, bracketMode: v as BracketMode }))}
+                      >
+                        <SelectTrigger data-testid="select-bracket-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="fixed">Fixed Percent</SelectItem>
+                          <SelectItem value="atr">ATR Multiple</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-[10px] text-muted-foreground mt-2">
+                        Used when the AI does not return valid stop-loss and take-profit levels.
+                      </p>
+                    </div>
+
+                    {settings.bracketMode === 'atr' && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">SL x ATR</label>
+                          <Input 
+                            type="number" 
+                            min="0.1" 
+                            step="0.1"
+                            value={settings.atrStopMultiplier} 
+                            onChange={e => setSettings(s => ({ ...s, atrStopMultiplier: Math.max(0.1, parseFloat(e.target.value) || 0.1) }))} 
+                            className="font-bold text-center"
+                            data-testid="input-atr-stop"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">TP x ATR</label>
+                          <Input 
+                            type="number" 
+                            min="0.1" 
+                            step="0.1"
+                            value={settings.atrTakeProfitMultiplier} 
+                            onChange={e => setSettings(s => ({ ...s, atrTakeProfitMultiplier: Math.max(0.1, parseFloat(e.target.value) || 0.1) }))} 
+                            className="font-bold text-center"
+                            data-testid="input-atr-take-profit"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex justify-between items-center text-xs">
+                      <span className="text-[10px] font-bold text-muted-foreground uppercase">Order Size at Stop</span>
+                      <span className="font-mono font-bold" data-testid="text-settings-position-size">
+                        {positionSize ? formatQuantity(positionSize.quantity) : '--'}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              </Card>
+
+              <Card className="p-8">
+                <h3 className="text-xl font-bold tracking-tight mb-2">Per-Symbol Overrides</h3>
+                <p className="text-xs text-muted-foreground mb-8">
+                  Each watchlist symbol runs its own bot. Blank fields use the values above; changes reach running bots on save.
+                </p>
+                <SymbolOverridesEditor entries={watchlist} profiles={strategyProfiles} onChange={updateSymbolOverrides} />
+              </Card>
+
+              <Card className="p-8">
+                <h3 className="text-xl font-bold tracking-tight mb-2">Strategy Profiles</h3>
+                <p className="text-xs text-muted-foreground mb-8">
+                  The prompt sent with every analysis. Each save adds a version; bots always use their profile's latest version.
+                </p>
+                <StrategyEditor
+                  profiles={strategyProfiles}
+                  activeProfileId={settings.strategyProfileId}
+                  watchlist={watchlist}
+                  onSelectActive={strategyProfileId => setSettings(s => ({ ...s, strategyProfileId }))}
+                  onChange={updateStrategyProfiles}
+                />
+              </Card>
+
+              <Card className="p-8">
+                <h3 className="text-xl font-bold tracking-tight mb-2">Signal Gates</h3>
+                <p className="text-xs text-muted-foreground mb-8">
+                  Decisions that fail a gate are logged and not executed. Closing a position is only subject to the first two.
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                  <div>
+                    <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Min Confidence %</label>
+                    <Input 
+                      type="number" 
+                      min="0" 
+                      max="100"
+                      value={settings.minConfidence} 
+                      onChange={e => setSettings(s => ({ ...s, minConfidence: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) }))} 
+                      className="font-bold text-center"
+                      data-testid="input-min-confidence"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Confirmations</label>
+                    <Input 
+                      type="number" 
+                      min="1" 
+                      max="10"
+                      value={settings.confirmationSignals} 
+                      onChange={e => setSettings(s => ({ ...s, confirmationSignals: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) }))} 
+                      className="font-bold text-center"
+                      data-testid="input-confirmations"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Cooldown (Min)</label>
+                    <Input 
+                      type="number" 
+                      min="0" 
+                      value={settings.cooldownMinutes} 
+                      onChange={e => setSettings(s => ({ ...s, cooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) }))} 
+                      className="font-bold text-center"
+                      data-testid="input-cooldown"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">No Flip (Min)</label>
+                    <Input 
+                      type="number" 
+                      min="0" 
+                      value={settings.noFlipMinutes} 
+                      onChange={e => setSettings(s => ({ ...s, noFlipMinutes: Math.max(0, parseInt(e.target.value) || 0) }))} 
+                      className="font-bold text-center"
+                      data-testid="input-no-flip"
+                    />
+                  </div>
+                </div>
+              </Card>
+
+              <Card className="p-8">
+                <h3 className="text-xl font-bold tracking-tight mb-2">Signal Scoring</h3>
+                <p className="text-xs text-muted-foreground mb-8">
+                  LONG and SHORT calls in the decision journal are scored against the price after each selected horizon.
+                </p>
+                <ToggleGroup
+                  type="multiple"
+                  value={settings.scoringHorizons}
+                  onValueChange={v => setSettings(s => ({ ...s, scoringHorizons: SCORING_HORIZONS.filter(h => v.includes(h)) }))}
+                  className="justify-start"
+                  data-testid="toggle-scoring-horizons"
+                >
+                  {SCORING_HORIZONS.map(h => (
+                    <ToggleGroupItem key={h} value={h} className="px-4 font-bold" data-testid={`toggle-scoring-${h}`}>
+                      {h}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </Card>
+
+              <Card className="p-8">
+                <h3 className="text-xl font-bold tracking-tight mb-2">Risk Guard</h3>
+                <p className="text-xs text-muted-foreground mb-8">
+                  Breaching any limit stops the bot and flattens open positions. Set a limit to 0 to disable it.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div>
+                    <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Max Daily Loss (USDT)</label>
+                    <Input 
+                      type="number" 
+                      min="0" 
+                      value={settings.maxDailyLoss} 
+                      onChange={e => setSettings(s => ({ ...s, maxDailyLoss: Math.max(0, parseFloat(e.target.value) || 0) }))} 
+                      className="font-bold text-center"
+                      data-testid="input-max-daily-loss"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Max Consecutive Losses</label>
+                    <Input 
+                      type="number" 
+                      min="0" 
+                      value={settings.maxConsecutiveLosses} 
+                      onChange={e => setSettings(s => ({ ...s, maxConsecutiveLosses: Math.max(0, parseInt(e.target.value) || 0) }))} 
+                      className="font-bold text-center"
+                      data-testid="input-max-consecutive-losses"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2">Max Drawdown %</label>
+                    <Input 
+                      type="number" 
+                      min="0" 
+                      max="100"
+                      value={settings.maxDrawdownPercent} 
+                      onChange={e => setSettings(s => ({ ...s, maxDrawdownPercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) }))} 
+                      className="font-bold text-center"
+                      data-testid="input-max-drawdown"
+                    />
                   </div>
                 </div>
               </Card>
+
+              <Card className="p-8">
+                <h3 className="text-xl font-bold tracking-tight mb-2">Import / Export</h3>
+                <p className="text-xs text-muted-foreground mb-8">
+                  Move a configuration between browsers as a JSON file. Imports are validated and previewed before anything changes.
+                </p>
+                <SettingsTransfer
+                  settings={settings}
+                  onImport={(next, changeCount) => commitSettings(next, `Imported settings file (${changeCount} change(s)).`)}
+                />
+              </Card>
             </div>
           )}
 
           {view === 'CLOUD' && (
             <div className="max-w-4xl space-y-8" data-testid="view-cloud">
+              <Card className="p-8" data-testid="card-storage-backend">
+                <div className="flex justify-between items-center mb-6 flex-wrap gap-4">
+                  <h3 className="text-xl font-bold tracking-tight">Storage Backend</h3>
+                  <Badge variant={isStoreEnabled ? 'default' : 'secondary'} data-testid="badge-storage-backend">
+                    {isStoreEnabled ? 'ACTIVE' : 'SIGN IN REQUIRED'}
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+                  <div>
+                    <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2 tracking-widest">
+                      Settings, logs, decisions and trades
+                    </label>
+                    <Select value={storageBackend} onValueChange={(v) => switchStorageBackend(v as StorageBackend)}>
+                      <SelectTrigger data-testid="select-storage-backend">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STORAGE_BACKENDS.map(b => <SelectItem key={b.id} value={b.id}>{b.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="text-xs text-muted-foreground space-y-2">
+                    <p>{STORAGE_BACKENDS.find(b => b.id === storageBackend)?.description}</p>
+                    <p>An empty backend is seeded with this browser's settings, paper account and journal when selected.</p>
+                    {storageBackend === 'postgres' && !settings.supabaseUrl && (
+                      <p className="text-destructive" data-testid="text-storage-needs-url">Set the gateway URL below.</p>
+                    )}
+                  </div>
+                </div>
+              </Card>
+
               <Card className="p-8">
                 <div className="flex justify-between items-center mb-8 pb-8 border-b border-border flex-wrap gap-4">
                   <h3 className="text-xl font-bold tracking-tight">Supabase Sync</h3>
@@ -803,6 +2090,11 @@ export default function TradingDashboard() {
                       placeholder="https://your-project.supabase.co"
                       data-testid="input-supabase-url"
                     />
+                    {settings.supabaseUrl && (
+                      <p className="text-[10px] text-muted-foreground mt-2 font-mono break-all" data-testid="text-supabase-rest-url">
+                        REST: {getRestUrl(settings.supabaseUrl)}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <label className="block text-[10px] font-bold text-muted-foreground uppercase mb-2 tracking-widest">
@@ -816,28 +2108,40 @@ export default function TradingDashboard() {
                       placeholder="Your anon key"
                       data-testid="input-supabase-key"
                     />
+                    <p className="text-[10px] text-muted-foreground mt-2">
+                      Leave empty for a local PostgREST without JWT auth.
+                    </p>
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between gap-4 flex-wrap mb-12 text-xs" data-testid="sync-details">
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">
+                      Last successful request: <span className="font-mono" data-testid="text-last-synced">{lastSyncedAt ? new Date(lastSyncedAt).toLocaleString() : '--'}</span>
+                    </p>
+                    {syncError && <p className="text-destructive font-mono break-all" data-testid="text-sync-error">{syncError}</p>}
+                    {!isLoggedIn && <p className="text-muted-foreground">Sign in to sync settings; logs stream regardless.</p>}
+                    <p className="text-muted-foreground" data-testid="text-sync-single-tenant">
+                      Rows are keyed by username and readable with the anon key; use a project only you (or your team) can reach.
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => pushSettingsToCloud(loadSettings(), loadSettingsUpdatedAt() ?? new Date().toISOString())}
+                    disabled={!isLoggedIn || !settings.supabaseUrl}
+                    data-testid="button-sync-now"
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" /> Push Saved Settings
+                  </Button>
+                </div>
+
                 <div className="space-y-4">
                   <h4 className="text-xs font-bold text-muted-foreground uppercase tracking-widest">
                     Database Schema Required
                   </h4>
                   <Card className="p-6 bg-muted/50 overflow-x-auto">
                     <pre className="font-mono text-[11px] text-primary leading-relaxed whitespace-pre-wrap">
-{`CREATE TABLE aegis_settings (
-  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-  key TEXT UNIQUE NOT NULL,
-  value TEXT NOT NULL,
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
-CREATE TABLE aegis_logs (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  type TEXT NOT NULL,
-  message TEXT NOT NULL
-);`}
+                      {SYNC_SCHEMA_SQL}
                     </pre>
                   </Card>
                 </div>
@@ -847,41 +2151,7 @@ CREATE TABLE aegis_logs (
 
           {view === 'LOGS' && (
             <div className="max-w-7xl h-[calc(100vh-200px)]" data-testid="view-logs">
-              <Card className="h-full flex flex-col overflow-hidden">
-                <div className="px-8 py-4 border-b border-border flex justify-between items-center flex-wrap gap-2">
-                  <span className="text-xs font-bold text-primary uppercase tracking-widest">Activity Stream</span>
-                  <Button 
-                    variant="ghost" 
-                    size="sm" 
-                    onClick={() => setLogs([])}
-                    className="text-muted-foreground"
-                    data-testid="button-clear-logs"
-                  >
-                    Clear Stream
-                  </Button>
-                </div>
-                <div className="flex-1 overflow-y-auto px-8 py-6 font-mono text-[11px] space-y-3">
-                  {logs.map(log => (
-                    <div key={log.id} className="flex gap-6 border-b border-border/30 pb-2">
-                      <span className="text-muted-foreground shrink-0">[{log.timestamp}]</span>
-                      <span className={`font-bold w-20 shrink-0 ${
-                        log.type === 'ERROR' ? 'text-destructive' : 
-                        log.type === 'SUCCESS' ? 'text-green-500' : 
-                        log.type === 'TRADE' ? 'text-chart-4' :
-                        'text-primary'
-                      }`}>
-                        {log.type}
-                      </span>
-                      <span className="text-muted-foreground flex-1">{log.message}</span>
-                    </div>
-                  ))}
-                  {logs.length === 0 && (
-                    <div className="text-center text-muted-foreground py-32 text-xs italic">
-                      Terminal stream idle.
-                    </div>
-                  )}
-                </div>
-              </Card>
+              <ActivityLogs sessionLogs={logs} storageBackend={storageBackend} isStoreEnabled={isStoreEnabled} />
             </div>
           )}
         </div>